@@ -0,0 +1,129 @@
+import type { AuthProvider, OAuth2ClientCredentialsConfig } from '../core/types.js';
+import { AuthenticationError } from '../core/errors.js';
+
+export const DEFAULT_OAUTH2_CONFIG: Pick<
+  OAuth2ClientCredentialsConfig,
+  'clientAuthMethod' | 'refreshBeforeExpiryMs'
+> = {
+  clientAuthMethod: 'basic',
+  refreshBeforeExpiryMs: 30_000,
+};
+
+function base64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/** A fixed token, or a function returning the current one (e.g. read from a secret store) */
+export class StaticBearerAuth implements AuthProvider {
+  readonly scheme = 'Bearer';
+
+  constructor(private readonly token: string | (() => string | Promise<string>)) {}
+
+  async getToken(): Promise<string> {
+    return typeof this.token === 'function' ? this.token() : this.token;
+  }
+}
+
+export class BasicAuth implements AuthProvider {
+  readonly scheme = 'Basic';
+  private readonly encoded: string;
+
+  constructor(username: string, password: string) {
+    this.encoded = base64(`${username}:${password}`);
+  }
+
+  getToken(): Promise<string> {
+    return Promise.resolve(this.encoded);
+  }
+}
+
+interface CachedToken {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * OAuth2 client-credentials grant. Tokens are cached until shortly before they expire;
+ * inside that window the current token is still served while a new one is fetched.
+ */
+export class OAuth2ClientCredentials implements AuthProvider {
+  readonly scheme = 'Bearer';
+  private readonly config: OAuth2ClientCredentialsConfig;
+  private token: CachedToken | null = null;
+  private pending: Promise<string> | null = null;
+
+  constructor(
+    config: Omit<OAuth2ClientCredentialsConfig, keyof typeof DEFAULT_OAUTH2_CONFIG> &
+      Partial<OAuth2ClientCredentialsConfig>,
+  ) {
+    this.config = { ...DEFAULT_OAUTH2_CONFIG, ...config };
+  }
+
+  async getToken(now = Date.now()): Promise<string> {
+    const token = this.token;
+    if (!token || now >= token.expiresAt) return this.fetchToken();
+    if (now >= token.expiresAt - this.config.refreshBeforeExpiryMs) {
+      // Proactive refresh; failures surface on a later call once the token has expired
+      this.fetchToken().catch(() => undefined);
+    }
+    return token.value;
+  }
+
+  refresh(): Promise<string> {
+    this.token = null;
+    return this.fetchToken();
+  }
+
+  // Single-flight: concurrent callers share one token request
+  private fetchToken(): Promise<string> {
+    this.pending ??= this.requestToken().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async requestToken(): Promise<string> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, clientAuthMethod } = this.config;
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scope) form.set('scope', scope);
+    if (audience) form.set('audience', audience);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (clientAuthMethod === 'basic') {
+      headers.Authorization = `Basic ${base64(
+        `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`,
+      )}`;
+    } else {
+      form.set('client_id', clientId);
+      form.set('client_secret', clientSecret);
+    }
+
+    const transport = this.config.transport ?? ((url, init) => fetch(url, init));
+    let body: { access_token?: unknown; expires_in?: unknown };
+    try {
+      const response = await transport(tokenUrl, { method: 'POST', headers, body: form });
+      if (!response.ok) {
+        throw new AuthenticationError(`Token request failed with HTTP ${response.status}`);
+      }
+      body = (await response.json()) as typeof body;
+    } catch (err) {
+      if (err instanceof AuthenticationError) throw err;
+      throw new AuthenticationError('Token request failed', err);
+    }
+
+    if (typeof body.access_token !== 'string') {
+      throw new AuthenticationError('Token response has no access_token');
+    }
+    const expiresIn = typeof body.expires_in === 'number' ? body.expires_in : null;
+    this.token = {
+      value: body.access_token,
+      // Without expires_in the token is kept until a 401 forces a refresh
+      expiresAt: expiresIn === null ? Infinity : Date.now() + expiresIn * 1000,
+    };
+    return body.access_token;
+  }
+}
@@ -0,0 +1,70 @@
+import type { AuthProvider, Middleware } from '../core/types.js';
+import { isStreamBody } from '../transport/body.js';
+
+/**
+ * Tracks the credential last handed out so that a burst of 401s for the same stale
+ * token triggers one refresh, and later 401s for an already-replaced token trigger none.
+ */
+export class AuthSession {
+  private current: string | null = null;
+  private refreshing: Promise<string> | null = null;
+
+  constructor(private readonly provider: AuthProvider) {}
+
+  get scheme(): string {
+    return this.provider.scheme ?? 'Bearer';
+  }
+
+  get canRefresh(): boolean {
+    return typeof this.provider.refresh === 'function';
+  }
+
+  async getToken(): Promise<string> {
+    this.current = await (this.refreshing ?? this.provider.getToken());
+    return this.current;
+  }
+
+  /** Returns the token to replay with, or null when the provider cannot refresh */
+  refresh(staleToken: string): Promise<string> | null {
+    if (this.refreshing) return this.refreshing;
+    if (this.current !== null && this.current !== staleToken) return Promise.resolve(this.current);
+    if (!this.provider.refresh) return null;
+    this.refreshing = this.provider
+      .refresh()
+      .then((token) => {
+        this.current = token;
+        return token;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+}
+
+/**
+ * Adds the Authorization header unless the request sets one, and after a 401 refreshes
+ * once and replays within the same attempt, so the replay is not counted as a retry.
+ */
+export function createAuthMiddleware(session: AuthSession): Middleware {
+  return async (ctx, next) => {
+    if (Object.keys(ctx.headers).some((name) => name.toLowerCase() === 'authorization')) {
+      return next();
+    }
+    const token = await session.getToken();
+    const response = await next({
+      ...ctx,
+      headers: { ...ctx.headers, Authorization: `${session.scheme} ${token}` },
+    });
+    // A consumed stream body cannot be sent again
+    if (response.status !== 401 || !session.canRefresh || isStreamBody(ctx.body)) return response;
+
+    const refreshed = await session.refresh(token);
+    if (refreshed === null || refreshed === token) return response;
+    await response.body?.cancel();
+    return next({
+      ...ctx,
+      headers: { ...ctx.headers, Authorization: `${session.scheme} ${refreshed}` },
+    });
+  };
+}
@@ -0,0 +1,37 @@
+import type { CacheEntry, CacheStore } from '../core/types.js';
+
+/** LRU bounded by entry count; reads refresh recency */
+export class InMemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry);
+  }
+
+  set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
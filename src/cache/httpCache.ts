@@ -0,0 +1,210 @@
+import {
+  CircuitOpenError,
+  DeadlineExceededError,
+  NetworkError,
+  RetryExhaustedError,
+  TimeoutError,
+} from '../core/errors.js';
+import type { CacheConfig, CacheEntry, CacheStore } from '../core/types.js';
+import { headersToRecord } from '../protocol/headers.js';
+import { InMemoryCacheStore } from './cacheStore.js';
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: false,
+  maxEntries: 500,
+};
+
+// Statuses stored by the cache; everything else passes through untouched
+const CACHEABLE_STATUSES = [200, 203];
+
+/** Failures a stale copy may cover: 5xx, network errors, timeouts and an open circuit */
+export function isStaleIfErrorEligible(error: unknown): boolean {
+  const cause = error instanceof RetryExhaustedError ? error.lastError : error;
+  if (cause instanceof NetworkError) return cause.status === undefined || cause.status >= 500;
+  return (
+    cause instanceof TypeError ||
+    cause instanceof TimeoutError ||
+    cause instanceof DeadlineExceededError ||
+    cause instanceof CircuitOpenError
+  );
+}
+
+export type CacheFreshness = 'fresh' | 'stale-while-revalidate' | 'stale';
+
+export function parseCacheControl(value: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  if (!value) return directives;
+  for (const part of value.split(',')) {
+    const [name, raw] = part.split('=', 2);
+    const key = name?.trim().toLowerCase();
+    if (!key) continue;
+    directives.set(key, raw === undefined ? true : raw.trim().replace(/^"|"$/g, ''));
+  }
+  return directives;
+}
+
+function seconds(value: string | true | undefined): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  return Number(value) * 1000;
+}
+
+function lowerCaseKeys(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) result[name.toLowerCase()] = value;
+  return result;
+}
+
+/**
+ * A private HTTP cache (RFC 9111 subset): explicit freshness from max-age/Expires,
+ * revalidation with ETag/Last-Modified, and the stale-while-revalidate and
+ * stale-if-error extensions. Store failures degrade to a cache miss.
+ */
+export class HttpCache {
+  private readonly store: CacheStore;
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    const merged = { ...DEFAULT_CACHE_CONFIG, ...config };
+    this.store = merged.store ?? new InMemoryCacheStore(merged.maxEntries);
+  }
+
+  /** Returns the stored entry when its Vary headers match this request */
+  async lookup(key: string, requestHeaders: Record<string, string>): Promise<CacheEntry | null> {
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.store.get(key);
+    } catch {
+      return null;
+    }
+    if (!entry) return null;
+    const headers = lowerCaseKeys(requestHeaders);
+    for (const [name, value] of Object.entries(entry.vary)) {
+      if ((headers[name] ?? null) !== value) return null;
+    }
+    return entry;
+  }
+
+  freshness(entry: CacheEntry, now = Date.now()): CacheFreshness {
+    const age = now - entry.storedAt;
+    if (age < entry.maxAgeMs) return 'fresh';
+    if (!entry.mustRevalidate && age < entry.maxAgeMs + entry.staleWhileRevalidateMs) {
+      return 'stale-while-revalidate';
+    }
+    return 'stale';
+  }
+
+  /** Whether `entry` may still stand in for a failed request */
+  usableOnError(entry: CacheEntry, now = Date.now()): boolean {
+    return !entry.mustRevalidate && now - entry.storedAt < entry.maxAgeMs + entry.staleIfErrorMs;
+  }
+
+  conditionalHeaders(entry: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.headers.etag) headers['If-None-Match'] = entry.headers.etag;
+    if (entry.headers['last-modified']) {
+      headers['If-Modified-Since'] = entry.headers['last-modified'];
+    }
+    return headers;
+  }
+
+  toResponse(entry: CacheEntry): Response {
+    // Copied so a consumer can never mutate the stored bytes
+    return new Response(entry.body.byteLength > 0 ? new Uint8Array(entry.body) : null, {
+      status: entry.status,
+      headers: entry.headers,
+    });
+  }
+
+  /**
+   * Stores cacheable responses and turns a 304 into the refreshed stored response.
+   * Returns the response the caller should continue with.
+   */
+  async handleResponse(
+    key: string,
+    entry: CacheEntry | null,
+    response: Response,
+    requestHeaders: Record<string, string>,
+    now = Date.now(),
+  ): Promise<{ response: Response; revalidated: boolean }> {
+    if (response.status === 304 && entry) {
+      // 304 headers update the stored ones (new Date, Cache-Control, ETag)
+      const headers = { ...entry.headers, ...headersToRecord(response.headers) };
+      const refreshed = this.createEntry(entry.status, headers, entry.body, requestHeaders, now);
+      if (refreshed) await this.write(key, refreshed);
+      return { response: this.toResponse(refreshed ?? entry), revalidated: true };
+    }
+
+    const headers = headersToRecord(response.headers);
+    if (!CACHEABLE_STATUSES.includes(response.status)) return { response, revalidated: false };
+    const body = new Uint8Array(await response.arrayBuffer());
+    const created = this.createEntry(response.status, headers, body, requestHeaders, now);
+    if (created) await this.write(key, created);
+    else await this.remove(key);
+    return {
+      response: new Response(body.byteLength > 0 ? body : null, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      }),
+      revalidated: false,
+    };
+  }
+
+  private createEntry(
+    status: number,
+    headers: Record<string, string>,
+    body: Uint8Array,
+    requestHeaders: Record<string, string>,
+    now: number,
+  ): CacheEntry | null {
+    const directives = parseCacheControl(headers['cache-control'] ?? null);
+    if (directives.has('no-store')) return null;
+    const varyNames = (headers.vary ?? '')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    if (varyNames.includes('*')) return null;
+
+    let maxAgeMs = seconds(directives.get('max-age'));
+    if (maxAgeMs === null && headers.expires) {
+      const expires = Date.parse(headers.expires);
+      const date = headers.date ? Date.parse(headers.date) : now;
+      maxAgeMs = Number.isNaN(expires)
+        ? 0
+        : Math.max(0, expires - (Number.isNaN(date) ? now : date));
+    }
+    const hasValidator = headers.etag !== undefined || headers['last-modified'] !== undefined;
+    // Without explicit freshness or a validator there is nothing useful to keep
+    if (maxAgeMs === null && !hasValidator) return null;
+
+    const noCache = directives.has('no-cache');
+    const ageMs = seconds(headers.age) ?? 0;
+    const lowered = lowerCaseKeys(requestHeaders);
+    return {
+      status,
+      headers,
+      body,
+      storedAt: now - ageMs,
+      maxAgeMs: noCache ? 0 : (maxAgeMs ?? 0),
+      staleWhileRevalidateMs: seconds(directives.get('stale-while-revalidate')) ?? 0,
+      staleIfErrorMs: seconds(directives.get('stale-if-error')) ?? 0,
+      mustRevalidate: noCache || directives.has('must-revalidate'),
+      vary: Object.fromEntries(varyNames.map((name) => [name, lowered[name] ?? null])),
+    };
+  }
+
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch {
+      // a failing store only costs the cache hit
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    try {
+      await this.store.delete(key);
+    } catch {
+      // see write()
+    }
+  }
+}
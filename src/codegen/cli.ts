@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { generateClient, loadOpenAPIDocument } from './openapi.js';
+
+const USAGE = `Usage: strontium-codegen <openapi.json|yaml> [--out client.ts] [--name ApiClient] [--import @periodic/strontium]`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    if (arg.startsWith('--')) {
+      const [flag, inline] = arg.slice(2).split('=', 2);
+      args[flag ?? ''] = inline ?? argv[++i] ?? '';
+    } else if (arg === '-o') {
+      args.out = argv[++i] ?? '';
+    } else {
+      args.input = arg;
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.input || 'help' in args) {
+    process.stderr.write(`${USAGE}\n`);
+    process.exitCode = args.input ? 0 : 1;
+    return;
+  }
+
+  const doc = await loadOpenAPIDocument(args.input);
+  const source = generateClient(doc, {
+    ...(args.name ? { className: args.name } : {}),
+    ...(args.import ? { importPath: args.import } : {}),
+  });
+
+  if (args.out) {
+    const { writeFile } = await import('fs/promises');
+    await writeFile(args.out, source);
+    process.stderr.write(`Wrote ${args.out}\n`);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch((err: unknown) => {
+  process.stderr.write(`strontium-codegen: ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exitCode = 1;
+});
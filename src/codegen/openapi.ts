@@ -0,0 +1,419 @@
+import type { HttpMethod } from '../core/types.js';
+
+// The subset of OpenAPI 3.0/3.1 the generator reads
+export interface OpenAPISchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  properties?: Record<string, OpenAPISchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenAPISchema;
+  items?: OpenAPISchema;
+  oneOf?: OpenAPISchema[];
+  anyOf?: OpenAPISchema[];
+  allOf?: OpenAPISchema[];
+  description?: string;
+}
+
+export interface OpenAPIParameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenAPISchema;
+  description?: string;
+}
+
+interface OpenAPIMediaType {
+  schema?: OpenAPISchema;
+}
+
+export interface OpenAPIRequestBody {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: OpenAPIParameter[];
+  requestBody?: OpenAPIRequestBody;
+  responses?: Record<string, { $ref?: string; content?: Record<string, OpenAPIMediaType> }>;
+  /** Vendor extension marking a POST/PATCH as safe to replay with an Idempotency-Key */
+  'x-idempotent'?: boolean;
+}
+
+export type OpenAPIPathItem = Partial<Record<Lowercase<HttpMethod>, OpenAPIOperation>> & {
+  parameters?: OpenAPIParameter[];
+};
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths: Record<string, OpenAPIPathItem>;
+  components?: {
+    schemas?: Record<string, OpenAPISchema>;
+    parameters?: Record<string, OpenAPIParameter>;
+    requestBodies?: Record<string, OpenAPIRequestBody>;
+  };
+}
+
+export interface GenerateClientOptions {
+  /** Name of the generated class; defaults to 'ApiClient' */
+  className?: string;
+  /** Module the generated code imports strontium types from */
+  importPath?: string;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function pascalCase(value: string): string {
+  const name = words(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name || '_';
+}
+
+function camelCase(value: string): string {
+  const name = pascalCase(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+// Path params are restricted to identifiers so they survive `:name` templating
+function paramKey(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : camelCase(name);
+}
+
+function docComment(lines: (string | undefined)[], indent: string): string {
+  const text = lines
+    .filter((line): line is string => !!line)
+    .flatMap((line) => line.split('\n'))
+    .map((line) => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function resolveRef<T>(doc: OpenAPIDocument, value: T & { $ref?: string }): T {
+  if (!value.$ref) return value;
+  const segments = value.$ref.replace(/^#\//, '').split('/');
+  let target: unknown = doc;
+  for (const segment of segments) {
+    target = (target as Record<string, unknown> | undefined)?.[
+      segment.replace(/~1/g, '/').replace(/~0/g, '~')
+    ];
+  }
+  if (target === undefined) throw new Error(`Unresolved $ref ${value.$ref}`);
+  return resolveRef(doc, target as T & { $ref?: string });
+}
+
+/** Renders an OpenAPI schema as a TypeScript type expression */
+export function schemaToType(schema: OpenAPISchema | undefined, indent = ''): string {
+  if (!schema) return 'unknown';
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop() ?? 'unknown';
+    return schema.$ref.startsWith('#/components/schemas/') ? pascalCase(name) : 'unknown';
+  }
+
+  let type: string;
+  if (schema.const !== undefined) type = JSON.stringify(schema.const);
+  else if (schema.enum) type = schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  else if (schema.oneOf ?? schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)!.map((part) => schemaToType(part, indent)).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map((part) => schemaToType(part, indent)).join(' & ');
+  } else if (Array.isArray(schema.type)) {
+    type = schema.type
+      .map((entry) => schemaToType({ ...schema, type: entry, nullable: false }, indent))
+      .join(' | ');
+  } else {
+    type = primitiveType(schema, indent);
+  }
+
+  // 3.0 `nullable`, or a 3.1 type list containing 'null' alongside an enum or const
+  const nullable =
+    schema.nullable === true ||
+    ((schema.enum !== undefined || schema.const !== undefined) &&
+      Array.isArray(schema.type) &&
+      schema.type.includes('null') &&
+      !type.split(' | ').includes('null'));
+  return nullable ? `${type} | null` : type;
+}
+
+function primitiveType(schema: OpenAPISchema, indent: string): string {
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schemaToType(schema.items, indent)}>`;
+    case 'object':
+    case undefined:
+      if (!schema.properties && schema.additionalProperties === undefined) {
+        return schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+      }
+      return objectType(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+function objectType(schema: OpenAPISchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const members = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) =>
+      `${docComment([property.description], inner)}${inner}${propertyKey(name)}${
+        required.has(name) ? '' : '?'
+      }: ${schemaToType(property, inner)};`,
+  );
+  if (schema.additionalProperties) {
+    const value =
+      schema.additionalProperties === true
+        ? 'unknown'
+        : schemaToType(schema.additionalProperties, inner);
+    members.push(`${inner}[key: string]: ${value};`);
+  }
+  return members.length === 0 ? '{}' : `{\n${members.join('\n')}\n${indent}}`;
+}
+
+// Path values are interpolated with String(), so anything but a scalar is widened
+function pathParamType(schema: OpenAPISchema | undefined): string {
+  const type = schemaToType(schema);
+  return type === 'string' || type === 'number' || schema?.enum ? type : 'string | number';
+}
+
+interface OperationModel {
+  name: string;
+  method: HttpMethod;
+  route: string;
+  comment: string;
+  pathParams: string | null;
+  query: { type: string; required: boolean } | null;
+  body: { type: string; required: boolean } | null;
+  response: string;
+  idempotent: boolean;
+}
+
+function bodyType(content: Record<string, OpenAPIMediaType> | undefined): string {
+  if (!content) return 'unknown';
+  const [mediaType, media] = Object.entries(content)[0] ?? [];
+  if (mediaType === undefined) return 'unknown';
+  if (mediaType.includes('json')) return schemaToType(media?.schema, '  ');
+  if (mediaType === 'multipart/form-data') return 'FormData';
+  if (mediaType === 'application/x-www-form-urlencoded') return 'URLSearchParams';
+  return 'Blob | Uint8Array | ReadableStream<Uint8Array>';
+}
+
+function responseType(doc: OpenAPIDocument, operation: OpenAPIOperation): string {
+  const types = new Set<string>();
+  for (const [status, response] of Object.entries(operation.responses ?? {})) {
+    if (!/^2/.test(status)) continue;
+    const resolved = resolveRef(doc, response);
+    const content = resolved.content;
+    if (!content || Object.keys(content).length === 0) {
+      types.add('void');
+      continue;
+    }
+    const json = Object.entries(content).find(([mediaType]) => mediaType.includes('json'));
+    types.add(json ? schemaToType(json[1].schema) : 'string');
+  }
+  if (types.size === 0) return 'unknown';
+  // An empty 204 alongside a JSON 200 still leaves `data` as the JSON type or an empty string
+  if (types.size > 1) types.delete('void');
+  return [...types].join(' | ');
+}
+
+function modelOperation(
+  doc: OpenAPIDocument,
+  path: string,
+  method: HttpMethod,
+  item: OpenAPIPathItem,
+  operation: OpenAPIOperation,
+): OperationModel {
+  const parameters = new Map<string, OpenAPIParameter>();
+  for (const raw of [...(item.parameters ?? []), ...(operation.parameters ?? [])]) {
+    const parameter = resolveRef(doc, raw);
+    parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+  }
+  const params = [...parameters.values()];
+
+  const pathParams = params.filter((param) => param.in === 'path');
+  const queryParams = params.filter((param) => param.in === 'query');
+  const declaresIdempotencyKey = params.some(
+    (param) => param.in === 'header' && param.name.toLowerCase() === 'idempotency-key',
+  );
+
+  const route = path.replace(/\{([^}]+)\}/g, (_, name: string) => `:${paramKey(name)}`);
+  const requestBody = operation.requestBody ? resolveRef(doc, operation.requestBody) : null;
+
+  return {
+    name: operation.operationId
+      ? camelCase(operation.operationId)
+      : camelCase(`${method.toLowerCase()} ${path.replace(/[{}]/g, '')}`),
+    method,
+    route,
+    comment: docComment(
+      [
+        operation.summary ?? operation.description,
+        `${method} ${path}`,
+        operation.deprecated ? '@deprecated' : undefined,
+      ],
+      '  ',
+    ),
+    pathParams:
+      pathParams.length > 0
+        ? `{ ${pathParams
+            .map((param) => `${paramKey(param.name)}: ${pathParamType(param.schema)}`)
+            .join('; ')} }`
+        : null,
+    query:
+      queryParams.length > 0
+        ? {
+            type: objectType(
+              {
+                properties: Object.fromEntries(
+                  queryParams.map((param) => [
+                    param.name,
+                    {
+                      ...param.schema,
+                      ...(param.description ? { description: param.description } : {}),
+                    },
+                  ]),
+                ),
+                required: queryParams.filter((param) => param.required).map((param) => param.name),
+              },
+              '    ',
+            ),
+            required: queryParams.some((param) => param.required),
+          }
+        : null,
+    body: requestBody
+      ? { type: bodyType(requestBody.content), required: requestBody.required ?? false }
+      : null,
+    response: responseType(doc, operation),
+    idempotent:
+      (method === 'POST' || method === 'PATCH') &&
+      (operation['x-idempotent'] === true || declaresIdempotencyKey),
+  };
+}
+
+function renderOperation(operation: OperationModel): string {
+  const fields: string[] = [];
+  if (operation.pathParams) fields.push(`    pathParams: ${operation.pathParams};`);
+  if (operation.query) {
+    fields.push(`    params${operation.query.required ? '' : '?'}: ${operation.query.type};`);
+  }
+  if (operation.body) {
+    fields.push(`    body${operation.body.required ? '' : '?'}: ${operation.body.type};`);
+  }
+  const inputRequired =
+    !!operation.pathParams || !!operation.query?.required || !!operation.body?.required;
+  const input =
+    fields.length > 0 ? `input${inputRequired ? '' : '?'}: {\n${fields.join('\n')}\n  }, ` : '';
+  const call = [
+    // Idempotent operations always carry an Idempotency-Key, which makes them retry-eligible
+    ...(operation.idempotent ? ["protocolMode: 'idempotent',"] : []),
+    '...options,',
+    ...(fields.length > 0 ? ['...input,'] : []),
+    `method: '${operation.method}',`,
+    `url: '${operation.route}',`,
+  ];
+
+  return `${operation.comment}  ${operation.name}(${input}options?: OperationOptions<${
+    operation.response
+  }>): Promise<StrontiumResponse<${operation.response}>> {
+    return this.client.request<${operation.response}>({
+${call.map((line) => `      ${line}`).join('\n')}
+    });
+  }`;
+}
+
+/**
+ * Emits a TypeScript module with a type per component schema and a class whose methods
+ * wrap `client.request` for each operation.
+ */
+export function generateClient(doc: OpenAPIDocument, options: GenerateClientOptions = {}): string {
+  if (!/^3\./.test(doc.openapi ?? '')) {
+    throw new Error(`Unsupported OpenAPI version ${String(doc.openapi)}; expected 3.x`);
+  }
+  const className = options.className ?? 'ApiClient';
+  const importPath = options.importPath ?? '@periodic/strontium';
+
+  const schemas = Object.entries(doc.components?.schemas ?? {}).map(
+    ([name, schema]) =>
+      `${docComment([schema.description], '')}export type ${pascalCase(name)} = ${schemaToType(schema)};`,
+  );
+
+  const operations: OperationModel[] = [];
+  for (const [path, item] of Object.entries(doc.paths ?? {})) {
+    for (const method of METHODS) {
+      const operation = item[method.toLowerCase() as Lowercase<HttpMethod>];
+      if (operation) operations.push(modelOperation(doc, path, method, item, operation));
+    }
+  }
+  const seen = new Map<string, number>();
+  for (const operation of operations) {
+    const count = seen.get(operation.name) ?? 0;
+    seen.set(operation.name, count + 1);
+    if (count > 0) operation.name = `${operation.name}${count + 1}`;
+  }
+
+  const title = [doc.info?.title, doc.info?.version].filter(Boolean).join(' ');
+  return `// Generated by strontium-codegen${title ? ` from ${title}` : ''}. Do not edit.
+import type { RequestOptions, StrontiumClient, StrontiumResponse } from '${importPath}';
+
+${schemas.length > 0 ? `${schemas.join('\n\n')}\n\n` : ''}// Typed per operation so options such as \`fallback\` match the response
+export type OperationOptions<T = unknown> = Omit<
+  RequestOptions<unknown, T>,
+  'method' | 'url' | 'body' | 'params' | 'pathParams' | 'schema' | 'statusSchemas' | 'bodySchema'
+>;
+
+export class ${pascalCase(className)} {
+  constructor(private readonly client: StrontiumClient) {}
+${operations.map((operation) => `\n${renderOperation(operation)}`).join('\n')}
+}
+`;
+}
+
+/** Reads a JSON or YAML document; YAML needs the optional `js-yaml` peer dependency */
+export async function loadOpenAPIDocument(path: string): Promise<OpenAPIDocument> {
+  const { readFile } = await import('fs/promises');
+  const source = await readFile(path, 'utf8');
+  if (/\.json$/i.test(path) || source.trimStart().startsWith('{')) {
+    return JSON.parse(source) as OpenAPIDocument;
+  }
+  // A variable specifier keeps bundlers and tsc from requiring js-yaml when it is not installed
+  const yamlModule = 'js-yaml';
+  let yaml: { load(source: string): unknown };
+  try {
+    yaml = (await import(yamlModule)) as typeof yaml;
+  } catch {
+    throw new Error('Reading YAML needs the optional js-yaml package: npm install js-yaml');
+  }
+  return yaml.load(source) as OpenAPIDocument;
+}
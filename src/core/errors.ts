@@ -12,6 +12,8 @@ export class NetworkError extends StrontiumError {
   constructor(
     message: string,
     public readonly cause?: unknown,
+    /** HTTP status of the failed response, when there was one */
+    public readonly status?: number,
   ) {
     super(message, 'NETWORK_ERROR');
     this.name = 'NetworkError';
@@ -25,6 +27,16 @@ export class TimeoutError extends StrontiumError {
   }
 }
 
+export class DeadlineExceededError extends StrontiumError {
+  constructor(
+    public readonly deadlineMs: number,
+    public readonly lastError?: unknown,
+  ) {
+    super(`Request deadline of ${deadlineMs}ms exceeded`, 'DEADLINE_EXCEEDED');
+    this.name = 'DeadlineExceededError';
+  }
+}
+
 export class RetryExhaustedError extends StrontiumError {
   constructor(
     public readonly attempts: number,
@@ -35,6 +47,59 @@ export class RetryExhaustedError extends StrontiumError {
   }
 }
 
+export class RetryAfterExceededError extends StrontiumError {
+  constructor(
+    public readonly retryAfterMs: number,
+    public readonly budgetMs: number,
+  ) {
+    super(
+      `Server requested a ${retryAfterMs}ms wait, exceeding the ${budgetMs}ms retry budget`,
+      'RETRY_AFTER_EXCEEDED',
+    );
+    this.name = 'RetryAfterExceededError';
+  }
+}
+
+export class RetryBudgetExhaustedError extends StrontiumError {
+  constructor(public readonly lastError: unknown) {
+    super(
+      'Retry budget exhausted. Retry suppressed to protect the upstream.',
+      'RETRY_BUDGET_EXHAUSTED',
+    );
+    this.name = 'RetryBudgetExhaustedError';
+  }
+}
+
+export class BulkheadRejectedError extends StrontiumError {
+  constructor(
+    public readonly reason: 'queue_full' | 'queue_timeout' | 'cancelled',
+    public readonly partition: string,
+  ) {
+    super(
+      `Bulkhead rejected request (${reason}) for partition "${partition}"`,
+      'BULKHEAD_REJECTED',
+    );
+    this.name = 'BulkheadRejectedError';
+  }
+}
+
+export class RateLimitedError extends StrontiumError {
+  constructor(public readonly partition: string) {
+    super(`Client-side rate limit reached for partition "${partition}"`, 'RATE_LIMITED');
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class AuthenticationError extends StrontiumError {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message, 'AUTHENTICATION_ERROR');
+    this.name = 'AuthenticationError';
+  }
+}
+
 export class CircuitOpenError extends StrontiumError {
   constructor() {
     super('Circuit breaker is OPEN. Request rejected.', 'CIRCUIT_OPEN');
@@ -52,6 +117,16 @@ export class ResponseValidationError extends StrontiumError {
   }
 }
 
+export class RequestValidationError extends StrontiumError {
+  constructor(
+    message: string,
+    public readonly validationErrors?: unknown,
+  ) {
+    super(message, 'REQUEST_VALIDATION_ERROR');
+    this.name = 'RequestValidationError';
+  }
+}
+
 export class IntegrityViolationError extends StrontiumError {
   constructor(message: string) {
     super(message, 'INTEGRITY_VIOLATION');
@@ -65,3 +140,10 @@ export class DeterministicStateError extends StrontiumError {
     this.name = 'DeterministicStateError';
   }
 }
+
+export class InvalidRequestError extends StrontiumError {
+  constructor(message: string) {
+    super(message, 'INVALID_REQUEST');
+    this.name = 'InvalidRequestError';
+  }
+}
@@ -0,0 +1,50 @@
+// Helpers for the single-file JSON stores; Node only, so fs is always imported lazily
+
+// A lock file older than this is left by a holder that died and may be taken over
+const LOCK_STALE_MS = 5_000;
+
+let tmpCounter = 0;
+
+/** Runs `fn` while holding an exclusive `<path>.lock`, across processes on one host */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const { open, stat, unlink } = await import('fs/promises');
+  const lock = `${path}.lock`;
+  for (;;) {
+    try {
+      await (await open(lock, 'wx')).close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+      const held = await stat(lock).catch(() => null);
+      if (held && Date.now() - held.mtimeMs > LOCK_STALE_MS) {
+        await unlink(lock).catch(() => undefined);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await unlink(lock).catch(() => undefined);
+  }
+}
+
+/** Parsed contents of `path`, or `{}` when it does not exist yet */
+export async function readJSONFile<T>(path: string): Promise<Record<string, T>> {
+  const { readFile } = await import('fs/promises');
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as Record<string, T>;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw err;
+  }
+}
+
+/** Replaces `path` via rename; the temp name is unique per process and write */
+export async function writeJSONFile(path: string, value: unknown): Promise<void> {
+  const { writeFile, rename } = await import('fs/promises');
+  const tmp = `${path}.${process.pid}.${++tmpCounter}.tmp`;
+  await writeFile(tmp, JSON.stringify(value));
+  await rename(tmp, path);
+}
@@ -14,41 +14,443 @@ export interface RetryConfig {
   maxDelayMs: number;
   jitter: boolean;
   retryOn: Array<'network' | '5xx' | number>;
+  /** Methods retried without an `Idempotency-Key`; POST and PATCH must opt in here */
+  retryableMethods: HttpMethod[];
+  /** Use `Retry-After` / `RateLimit-Reset` from 429 and 503 responses as the backoff delay */
+  respectRetryAfter: boolean;
+  /** Throw `RetryAfterExceededError` instead of capping when the server asks for more than `maxDelayMs` */
+  failOnExcessiveRetryAfter: boolean;
 }
 
+export type CircuitWindowType = 'consecutive' | 'count' | 'time';
+
+export interface CircuitOutcome {
+  /** HTTP status, or null when no response was received */
+  status: number | null;
+  error?: unknown;
+  durationMs: number;
+}
+
+export interface PartitionInput {
+  method: HttpMethod;
+  url: string;
+  /** Route template such as '/users/:id', when the caller supplied one */
+  route?: string;
+}
+
+export type PartitionStrategy = 'client' | 'host' | 'route' | ((input: PartitionInput) => string);
+
 export interface CircuitBreakerConfig {
+  /** Consecutive failures before OPEN ('consecutive' window only) */
   failureThreshold: number;
   resetTimeoutMs: number;
   halfOpenMaxCalls: number;
+  /** 'consecutive' trips on a failure streak; 'count' and 'time' trip on the failure rate */
+  windowType: CircuitWindowType;
+  /** Calls kept for a 'count' window, or milliseconds covered by a 'time' window */
+  windowSize: number;
+  /** Calls the window must hold before the failure rate is evaluated */
+  minimumRequests: number;
+  /** Failure rate (0–1) at which the circuit opens */
+  failureRateThreshold: number;
+  /** Calls slower than this count as failures */
+  slowCallDurationMs?: number;
+  /** Decides which outcomes count as failures */
+  isFailure: (outcome: CircuitOutcome) => boolean;
+  /** One breaker for the whole client, per host, per method + route, or a custom key */
+  partitionBy: PartitionStrategy;
+  /** Breakers kept before idle partitions are evicted */
+  maxPartitions: number;
+  /** Shared state store; without one every process learns about outages on its own */
+  store?: CircuitStateStore;
+  /** Minimum time between reads of the shared store per partition */
+  syncIntervalMs: number;
+  /** Remote snapshots stamped further in the future than this are ignored */
+  maxClockSkewMs: number;
+}
+
+export interface RetryBudgetConfig {
+  enabled: boolean;
+  /** Retries allowed as a fraction of requests in the window (0.2 = 20%) */
+  ratio: number;
+  /** Retries always allowed regardless of traffic, per second of window */
+  minRetriesPerSecond: number;
+  windowMs: number;
+}
+
+export interface RetryBudgetState {
+  enabled: boolean;
+  requests: number;
+  retries: number;
+  available: number;
+}
+
+export interface BulkheadConfig {
+  /** Requests allowed on the wire at once across the client */
+  maxConcurrent: number;
+  /** Requests allowed on the wire at once per partition; unlimited when unset */
+  maxConcurrentPerPartition?: number;
+  /** Requests allowed to wait for a slot; beyond this they are rejected immediately */
+  maxQueue: number;
+  queueTimeoutMs: number;
+  /** 'priority' serves higher `RequestOptions.priority` first, FIFO within a priority */
+  queueOrder: 'fifo' | 'priority';
+  partitionBy: PartitionStrategy;
+}
+
+export interface BulkheadState {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  rejected: number;
+  averageQueueWaitMs: number;
+  partitions: Record<string, { active: number; queued: number }>;
+}
+
+export interface AdaptiveConcurrencyConfig {
+  enabled: boolean;
+  initialLimit: number;
+  minLimit: number;
+  maxLimit: number;
+  /** Limit growth per round of requests while latency is stable */
+  additiveIncrease: number;
+  /** Factor the limit is multiplied by on overload or latency inflation */
+  backoffRatio: number;
+  /** Latency above baseline × this counts as inflation */
+  latencyTolerance: number;
+  /** The baseline is the lowest latency seen within roughly this window, per upstream */
+  baselineWindowMs: number;
+}
+
+export interface AdaptiveLimitChange {
+  at: number;
+  limit: number;
+  reason: 'increase' | 'overload' | 'latency';
+}
+
+export interface AdaptiveConcurrencyState {
+  limit: number;
+  minLimit: number;
+  maxLimit: number;
+  /** Current no-load latency baseline per circuit partition */
+  baselineLatencyMs: Record<string, number>;
+  /** Most recent limit changes, oldest first */
+  history: AdaptiveLimitChange[];
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  algorithm: 'token-bucket' | 'gcra';
+  /** Sustained requests per second per partition */
+  ratePerSecond: number;
+  /** Requests allowed back-to-back before the rate applies */
+  burst: number;
+  /** 'wait' delays the request until a token is free; 'fail' rejects immediately */
+  mode: 'wait' | 'fail';
+  /** Longest a request may wait for a token in 'wait' mode */
+  maxWaitMs: number;
+  partitionBy: PartitionStrategy;
+  maxPartitions: number;
+}
+
+export interface RateLimitEvent {
+  partition: string;
+  /** Time the request was delayed; 0 when rejected */
+  waitMs: number;
+  rejected: boolean;
+}
+
+export interface HedgingConfig {
+  enabled: boolean;
+  /** Wait before firing a duplicate; also the fallback until latency samples exist */
+  delayMs: number;
+  /** Use this percentile of recent latency (e.g. 95) as the hedge delay instead */
+  percentile?: number;
+  maxHedges: number;
 }
 
 export type ProtocolMode = 'standard' | 'idempotent';
 export type ClientMode = 'strict' | 'performance';
 
+/** A stored response plus the freshness data parsed from its headers */
+export interface CacheEntry {
+  status: number;
+  headers: Record<string, string>;
+  body: Uint8Array;
+  /** Epoch ms the response was generated, corrected by its Age header */
+  storedAt: number;
+  maxAgeMs: number;
+  staleWhileRevalidateMs: number;
+  staleIfErrorMs: number;
+  /** `must-revalidate`/`no-cache`: never serve stale */
+  mustRevalidate: boolean;
+  /** Request header values named by the response's Vary header */
+  vary: Record<string, string | null>;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Fallback data, or a function deriving it from the failure */
+export type FallbackValue<T> = T | ((error: unknown, ctx: HookContext) => T | Promise<T>);
+
+export interface FallbackConfig<T = unknown> {
+  /** Served when the circuit is open or retries are exhausted */
+  value?: FallbackValue<T>;
+  /** Prefer the last successful response for the same method and URL over `value` */
+  lastKnownGood?: boolean;
+}
+
+export interface FallbackEvent {
+  /** The failure the fallback replaced */
+  error: unknown;
+  source: 'value' | 'lastKnownGood';
+}
+
+export interface FallbackCounts {
+  value: number;
+  lastKnownGood: number;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  /** Defaults to an in-memory LRU of `maxEntries` */
+  store?: CacheStore;
+  maxEntries: number;
+}
+
+/** What a store keeps per idempotency key */
+export interface IdempotencyRecord {
+  payloadHash: string;
+  createdAt: number;
+  expiresAt: number;
+  /** First successful response for the key; only kept with `storeResponses` */
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+}
+
+/** Persists idempotency keys so payload checks survive restarts and span processes */
+export interface IdempotencyStore {
+  /**
+   * Stores `record` unless a live record already holds `key`, and returns the record that
+   * holds it afterwards. Must be atomic (e.g. Redis `SET NX`): with a separate get and set,
+   * two concurrent first uses of a key could each bind their own payload.
+   */
+  claim(key: string, record: IdempotencyRecord): Promise<IdempotencyRecord>;
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  set(key: string, record: IdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface IdempotencyConfig {
+  /** Defaults to a per-client in-memory store of `maxEntries` */
+  store?: IdempotencyStore;
+  /** How long a key stays bound to its payload */
+  ttlMs: number;
+  maxEntries: number;
+  /** Prefix that keeps clients sharing one store apart; defaults to `baseURL` */
+  scope?: string;
+  /** Return the first response for a repeated key and payload without sending */
+  storeResponses: boolean;
+}
+
+/** Supplies credentials for the Authorization header */
+export interface AuthProvider {
+  /** Authorization scheme; defaults to 'Bearer' */
+  readonly scheme?: string;
+  /** Current credential; may be served from a cache */
+  getToken(): Promise<string>;
+  /** Discards the current credential and obtains a new one; without it a 401 is final */
+  refresh?(): Promise<string>;
+}
+
+export interface OAuth2ClientCredentialsConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+  /** Send credentials as HTTP Basic ('basic') or in the form body ('body') */
+  clientAuthMethod: 'basic' | 'body';
+  /** Refresh this long before `expires_in` runs out */
+  refreshBeforeExpiryMs: number;
+  /** Used for token requests; defaults to global fetch */
+  transport?: Transport;
+}
+
 export interface StrontiumClientConfig {
   baseURL: string;
   retry?: Partial<RetryConfig>;
+  /** Opt-in HTTP cache for GET responses, honoring Cache-Control and validators */
+  cache?: Partial<CacheConfig>;
+  /** Adds an Authorization header and refreshes credentials after a 401 */
+  auth?: AuthProvider;
+  /** Response served instead of CircuitOpenError or RetryExhaustedError */
+  fallback?: FallbackConfig;
+  /** Where idempotency keys are tracked in `'idempotent'` protocol mode */
+  idempotency?: Partial<IdempotencyConfig>;
+  /** Counters, latency histograms and gauges, exportable via `metricsText()` */
+  metrics?: Partial<MetricsConfig>;
+  /** Client-wide cap on retries to prevent retry storms */
+  retryBudget?: Partial<RetryBudgetConfig>;
   circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Concurrency limit with a bounded wait queue */
+  bulkhead?: Partial<BulkheadConfig>;
+  /** Client-side quota enforcement, applied to every attempt including retries */
+  rateLimit?: Partial<RateLimitConfig>;
+  /** Opt-in AIMD limiter that tunes the bulkhead's maxConcurrent from observed latency */
+  adaptiveConcurrency?: Partial<AdaptiveConcurrencyConfig>;
+  /** Opt-in duplicate attempts for slow GET/HEAD requests */
+  hedging?: Partial<HedgingConfig>;
   timeoutMs?: number;
+  /** Total budget across all attempts and backoff sleeps */
+  deadlineMs?: number;
   dedupe?: boolean;
   protocolMode?: ProtocolMode;
   mode?: ClientMode;
+  /** Run response and body schemas; defaults to true in 'strict' mode, false in 'performance' */
+  validate?: boolean;
   transport?: Transport;
   tracer?: OTelTracer;
   headers?: Record<string, string>;
+  /** How array query params are serialized; defaults to 'repeat' */
+  arrayFormat?: ArrayFormat;
 }
 
-export interface RequestOptions<TBody = unknown> {
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+export type QueryParams = Record<string, QueryValue>;
+
+/** How arrays are written: a=1&a=2 | a[]=1&a[]=2 | a[0]=1&a[1]=2 | a=1,2 */
+export type ArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+type PathParamName<S extends string> = S extends `${infer Name}/${string}`
+  ? Name extends ''
+    ? never
+    : Name
+  : S extends ''
+    ? never
+    : S;
+
+/** Names of the `:param` segments in a path template */
+export type PathParamNames<P extends string> = P extends `${string}:${infer Rest}`
+  ? PathParamName<Rest> | PathParamNames<Rest extends `${string}/${infer Tail}` ? Tail : ''>
+  : never;
+
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+/** 'auto' parses JSON when the response Content-Type says so and text otherwise */
+export type ResponseType = 'auto' | 'json' | 'text' | 'arrayBuffer' | 'stream' | 'blob';
+
+export interface RequestOptions<TBody = unknown, TData = unknown> {
   method: HttpMethod;
   url: string;
   body?: TBody;
   headers?: Record<string, string>;
-  schema?: Validator<unknown>;
+  /** Response validator; `data` is typed from its `parse` return */
+  schema?: Validator<TData>;
+  /** Validators for specific statuses (e.g. 200 vs 202), taking precedence over `schema` */
+  statusSchemas?: Partial<Record<number, Validator<TData>>>;
+  /** Validates the body before sending; the parsed result is what gets sent */
+  bodySchema?: Validator<TBody>;
+  /** Run schemas in this request; defaults to the client's `validate` */
+  validate?: boolean;
   signal?: AbortSignal;
   idempotencyKey?: string;
+  /** Time to first byte (response headers) for each attempt */
+  timeoutMs?: number;
+  /** Maximum gap between body chunks once the response has started */
+  idleTimeoutMs?: number;
+  deadlineMs?: number;
+  responseType?: ResponseType;
+  /** Query parameters appended to the URL */
+  params?: QueryParams;
+  /** Values for `:name` segments in `url`; the template also becomes the `route` */
+  pathParams?: Record<string, string | number>;
+  /** Overrides the client's `arrayFormat` */
+  arrayFormat?: ArrayFormat;
+  /** Route template (e.g. '/users/:id') used to partition circuit breakers and bulkheads */
+  route?: string;
+  /** Queue position when the bulkhead uses `queueOrder: 'priority'`; higher goes first */
+  priority?: number;
+  /** Merged over the client's retry config for this request only */
+  retry?: Partial<RetryConfig>;
+  dedupe?: boolean;
+  protocolMode?: ProtocolMode;
+  /** Enable or disable hedging for this GET/HEAD request */
+  hedging?: boolean;
+  /** Use the response cache for this GET; defaults to the client's `cache.enabled` */
+  cache?: boolean;
+  /** Replaces the client's fallback; `false` disables it for this request */
+  fallback?: FallbackConfig<TData> | false;
+  /** Neither gate this request on the circuit breaker nor record its outcome */
+  bypassCircuitBreaker?: boolean;
+}
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamOptions<TBody = unknown, TData = unknown> {
+  url: string;
+  method?: HttpMethod;
+  body?: TBody;
+  headers?: Record<string, string>;
+  /** Defaults to 'sse' */
+  format?: StreamFormat;
+  /** Applied to each event's data */
+  schema?: Validator<TData>;
+  validate?: boolean;
+  /** Parse SSE `data` as JSON before validation; NDJSON lines are always JSON. Defaults to true */
+  parseData?: boolean;
+  signal?: AbortSignal;
+  /** Time to the response headers of each connection attempt */
   timeoutMs?: number;
+  params?: QueryParams;
+  pathParams?: Record<string, string | number>;
+  arrayFormat?: ArrayFormat;
+  /** Resume point sent as `Last-Event-ID` on the first connection */
+  lastEventId?: string;
+  /** Merged over the client's retry config; governs reconnects */
+  retry?: Partial<RetryConfig>;
+  route?: string;
+  bypassCircuitBreaker?: boolean;
 }
 
+export interface StreamEvent<T> {
+  data: T;
+  /** SSE event type; absent for NDJSON and unnamed events */
+  event?: string;
+  id?: string;
+}
+
+/** Options for the `get`/`post`/... helpers; `pathParams` is required when the URL has `:params` */
+export type MethodOptions<P extends string = string, TData = unknown> = Omit<
+  RequestOptions<unknown, TData>,
+  'method' | 'url' | 'body' | 'pathParams'
+> &
+  ([PathParamNames<P>] extends [never]
+    ? { pathParams?: Record<string, string | number> }
+    : { pathParams: PathParams<P> });
+
+export type MethodOptionsArgs<P extends string, TData = unknown> = [PathParamNames<P>] extends [
+  never,
+]
+  ? [options?: MethodOptions<P, TData>]
+  : [options: MethodOptions<P, TData>];
+
 export interface StrontiumResponse<T> {
   data: T;
   status: number;
@@ -56,20 +458,94 @@ export interface StrontiumResponse<T> {
   requestId: string;
   attempt: number;
   latencyMs: number;
+  /**
+   * 'hit': served fresh from cache; 'revalidated': the server answered 304;
+   * 'stale': served past its freshness via stale-while-revalidate or stale-if-error
+   */
+  cache?: 'hit' | 'revalidated' | 'stale';
+  /** The response came from a hedged duplicate rather than the original attempt */
+  hedged?: boolean;
+  /** A fallback stood in for a failed request; see `FallbackConfig` */
+  fromFallback?: boolean;
+  /** Returned from the idempotency store instead of being sent again */
+  idempotentReplay?: boolean;
 }
 
 export interface Validator<T> {
   parse(data: unknown): T;
 }
 
+/** The output type of a validator, e.g. `InferValidator<typeof UserSchema>` */
+export type InferValidator<V> = V extends Validator<infer T> ? T : never;
+
 export type Transport = (url: string, init: RequestInit) => Promise<Response>;
 
 export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
 
+export type CircuitTransitionReason =
+  | 'failure_threshold'
+  | 'failure_rate'
+  | 'probe_failed'
+  | 'probe_succeeded'
+  | 'reset_timeout'
+  | 'forced_open'
+  | 'forced_closed'
+  | 'reset'
+  | 'remote_sync';
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  reason: CircuitTransitionReason;
+  /** Failures counted by the breaker at the moment of the change */
+  failures: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number;
+  lastOpenedAt: number;
+  /** Wall-clock time of the transition that produced this snapshot */
+  updatedAt: number;
+  /** Incremented on every successful compare-and-set */
+  version: number;
+}
+
+/** Shared breaker state so one process's open circuit propagates to the others */
+export interface CircuitStateStore {
+  get(key: string): Promise<CircuitSnapshot | undefined>;
+  /** Writes `next` only if the stored version still equals `expectedVersion` (null: absent) */
+  compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    next: CircuitSnapshot,
+  ): Promise<boolean>;
+}
+
+export interface CircuitStateChangeEvent extends CircuitTransition {
+  partition: string;
+}
+
+export interface CircuitPartitionHealth {
+  state: CircuitState;
+  failures: number;
+  /** Held in place by forceOpen()/forceClosed() */
+  forced: boolean;
+}
+
 export interface HealthStatus {
+  /** Worst state across all circuit partitions */
   circuitState: CircuitState;
+  /** Failures summed across all circuit partitions */
   recentFailures: number;
+  circuits: Record<string, CircuitPartitionHealth>;
   averageLatency: number;
+  retryBudget: RetryBudgetState;
+  bulkhead: BulkheadState;
+  /** null unless adaptive concurrency is enabled */
+  adaptiveConcurrency: AdaptiveConcurrencyState | null;
+  /** Fallbacks served since the client was created */
+  fallbacks: FallbackCounts;
 }
 
 export interface HookContext {
@@ -77,6 +553,7 @@ export interface HookContext {
   url: string;
   attempt: number;
   requestId: string;
+  hedged?: boolean;
 }
 
 export interface Hooks {
@@ -87,10 +564,42 @@ export interface Hooks {
   ) => void | Promise<void>;
   onRetry?: (ctx: HookContext, error: unknown) => void | Promise<void>;
   onCircuitOpen?: (ctx: HookContext) => void | Promise<void>;
+  /** A request was delayed or rejected by the client-side rate limiter */
+  onRateLimited?: (ctx: HookContext, event: RateLimitEvent) => void | Promise<void>;
+  onCircuitStateChange?: (event: CircuitStateChangeEvent) => void | Promise<void>;
+  /** A fallback response was served in place of the error */
+  onFallback?: (ctx: HookContext, event: FallbackEvent) => void | Promise<void>;
   onError?: (ctx: HookContext, error: unknown) => void | Promise<void>;
   onCancel?: (ctx: HookContext) => void | Promise<void>;
 }
 
+/** Mutable view of one transport call; middleware may rewrite any field before calling `next` */
+export interface MiddlewareContext {
+  readonly requestId: string;
+  readonly attempt: number;
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body: BodyInit | undefined;
+  signal: AbortSignal;
+  /** Options as passed to `request()` or `stream()` */
+  readonly options: RequestOptions | StreamOptions;
+}
+
+/**
+ * Wraps the transport. Call `next` to continue down the chain (optionally with a new
+ * context), return a Response to short-circuit, or throw to fail the attempt.
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: (ctx?: MiddlewareContext) => Promise<Response>,
+) => Promise<Response>;
+
+export interface MiddlewareOptions {
+  /** Lower runs first (outermost); equal orders keep registration order. Defaults to 0 */
+  order?: number;
+}
+
 // Minimal OTel interface to avoid hard dependency
 export interface OTelSpan {
   setAttribute(key: string, value: string | number | boolean): void;
@@ -102,3 +611,33 @@ export interface OTelSpan {
 export interface OTelTracer {
   startSpan(name: string): OTelSpan;
 }
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricDefinition {
+  /** Family name; counters are exported with a `_total` suffix */
+  name: string;
+  type: MetricType;
+  help: string;
+  labelNames: string[];
+  /** Histogram bucket upper bounds, in seconds */
+  buckets?: number[];
+}
+
+/** Destination for client metrics; adapt it to prom-client or an OTel meter to export elsewhere */
+export interface MetricsRegistry {
+  /** Called once per metric before any value is recorded */
+  describe(definition: MetricDefinition): void;
+  incrementCounter(name: string, labels: Record<string, string>, value?: number): void;
+  setGauge(name: string, labels: Record<string, string>, value: number): void;
+  observeHistogram(name: string, labels: Record<string, string>, value: number): void;
+  /** OpenMetrics text exposition, for registries that can render one */
+  toOpenMetrics?(): string;
+}
+
+export interface MetricsConfig {
+  /** Defaults to a per-client OpenMetricsRegistry */
+  registry?: MetricsRegistry;
+  /** Latency histogram buckets, in seconds */
+  buckets: number[];
+}
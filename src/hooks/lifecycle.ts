@@ -1,4 +1,11 @@
-import type { Hooks, HookContext, StrontiumResponse } from '../core/types.js';
+import type {
+  Hooks,
+  HookContext,
+  RateLimitEvent,
+  StrontiumResponse,
+  CircuitStateChangeEvent,
+  FallbackEvent,
+} from '../core/types.js';
 
 export async function runHook<Args extends unknown[]>(
   fn: ((...args: Args) => void | Promise<void>) | undefined,
@@ -14,14 +21,35 @@ export async function runHook<Args extends unknown[]>(
 
 export type { Hooks, HookContext };
 
-export function createHookRunner(hooks: Hooks) {
+// Every registration runs, in the order it was added
+async function runAll<K extends keyof Hooks>(
+  hooks: Hooks[],
+  name: K,
+  ...args: Parameters<NonNullable<Hooks[K]>>
+): Promise<void> {
+  for (const registration of hooks) {
+    await runHook(
+      registration[name] as ((...a: typeof args) => void | Promise<void>) | undefined,
+      ...args,
+    );
+  }
+}
+
+export function createHookRunner(hooks: Hooks[]) {
   return {
-    beforeRequest: (ctx: HookContext) => runHook(hooks.onBeforeRequest, ctx),
+    beforeRequest: (ctx: HookContext) => runAll(hooks, 'onBeforeRequest', ctx),
     afterResponse: (ctx: HookContext, res: StrontiumResponse<unknown>) =>
-      runHook(hooks.onAfterResponse, ctx, res),
-    onRetry: (ctx: HookContext, err: unknown) => runHook(hooks.onRetry, ctx, err),
-    onCircuitOpen: (ctx: HookContext) => runHook(hooks.onCircuitOpen, ctx),
-    onError: (ctx: HookContext, err: unknown) => runHook(hooks.onError, ctx, err),
-    onCancel: (ctx: HookContext) => runHook(hooks.onCancel, ctx),
+      runAll(hooks, 'onAfterResponse', ctx, res),
+    onRetry: (ctx: HookContext, err: unknown) => runAll(hooks, 'onRetry', ctx, err),
+    onCircuitOpen: (ctx: HookContext) => runAll(hooks, 'onCircuitOpen', ctx),
+    onRateLimited: (ctx: HookContext, event: RateLimitEvent) =>
+      runAll(hooks, 'onRateLimited', ctx, event),
+    onFallback: (ctx: HookContext, event: FallbackEvent) => runAll(hooks, 'onFallback', ctx, event),
+    onError: (ctx: HookContext, err: unknown) => runAll(hooks, 'onError', ctx, err),
+    onCancel: (ctx: HookContext) => runAll(hooks, 'onCancel', ctx),
+    onCircuitStateChange: (event: CircuitStateChangeEvent) =>
+      runAll(hooks, 'onCircuitStateChange', event),
   };
 }
+
+export type HookRunner = ReturnType<typeof createHookRunner>;
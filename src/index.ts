@@ -4,21 +4,71 @@ export { createStrontiumClient, StrontiumClient } from './requestEngine.js';
 export type {
   StrontiumClientConfig,
   RequestOptions,
+  ResponseType,
+  StreamOptions,
+  StreamEvent,
+  StreamFormat,
+  MethodOptions,
+  QueryParams,
+  QueryValue,
+  ArrayFormat,
+  PathParams,
+  PathParamNames,
   StrontiumResponse,
   RetryConfig,
   RetryStrategy,
+  RetryBudgetConfig,
+  RetryBudgetState,
   CircuitBreakerConfig,
+  CircuitWindowType,
+  CircuitOutcome,
+  CircuitPartitionHealth,
+  CircuitTransition,
+  CircuitTransitionReason,
+  CircuitStateChangeEvent,
+  CircuitSnapshot,
+  CircuitStateStore,
+  HedgingConfig,
+  BulkheadConfig,
+  BulkheadState,
+  AdaptiveConcurrencyConfig,
+  AdaptiveConcurrencyState,
+  AdaptiveLimitChange,
+  RateLimitConfig,
+  RateLimitEvent,
+  PartitionInput,
+  PartitionStrategy,
   ProtocolMode,
   ClientMode,
   HttpMethod,
   Validator,
+  InferValidator,
   Transport,
   HealthStatus,
   CircuitState,
   Hooks,
   HookContext,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareOptions,
+  AuthProvider,
+  OAuth2ClientCredentialsConfig,
+  CacheConfig,
+  IdempotencyConfig,
+  IdempotencyRecord,
+  IdempotencyStore,
+  FallbackConfig,
+  FallbackValue,
+  FallbackEvent,
+  FallbackCounts,
+  CacheEntry,
+  CacheStore,
   OTelTracer,
   OTelSpan,
+  MetricsConfig,
+  MetricsRegistry,
+  MetricDefinition,
+  MetricType,
 } from './core/types.js';
 
 // Errors
@@ -26,11 +76,19 @@ export {
   StrontiumError,
   NetworkError,
   TimeoutError,
+  DeadlineExceededError,
   RetryExhaustedError,
+  RetryAfterExceededError,
+  RetryBudgetExhaustedError,
+  BulkheadRejectedError,
+  RateLimitedError,
+  AuthenticationError,
   CircuitOpenError,
   ResponseValidationError,
+  RequestValidationError,
   IntegrityViolationError,
   DeterministicStateError,
+  InvalidRequestError,
 } from './core/errors.js';
 
 // State machine
@@ -38,9 +96,39 @@ export { StateMachine } from './core/stateMachine.js';
 export type { RequestState } from './core/stateMachine.js';
 
 // Resilience primitives (for advanced usage)
-export { CircuitBreaker } from './resilience/circuitBreaker.js';
-export { shouldRetry, backoff } from './resilience/retry.js';
+export { CircuitBreaker, defaultIsFailure } from './resilience/circuitBreaker.js';
+export { CircuitBreakerRegistry } from './resilience/circuitRegistry.js';
+export { resolvePartitionKey } from './resilience/partition.js';
+export { InMemoryCircuitStateStore, FileCircuitStateStore } from './resilience/circuitStore.js';
+export { shouldRetry, backoff, parseRetryAfter, isMethodRetryable } from './resilience/retry.js';
+export type { RetryDecisionContext } from './resilience/retry.js';
+export { parseServerSentEvents, parseNdjson } from './transport/eventStream.js';
+export type { ServerSentEvent } from './transport/eventStream.js';
+
+// Metrics
+export { OpenMetricsRegistry, OPENMETRICS_CONTENT_TYPE } from './observability/openMetrics.js';
 
 // Protocol utilities
 export { generateRequestId, generateIdempotencyKey } from './protocol/headers.js';
-export { computePayloadHash } from './protocol/payloadHash.js';
+export { computePayloadHash, canonicalJSON } from './protocol/payloadHash.js';
+export { InMemoryIdempotencyStore, FileIdempotencyStore } from './protocol/idempotencyStore.js';
+export {
+  buildURL,
+  joinURL,
+  isAbsoluteURL,
+  serializeParams,
+  interpolatePath,
+} from './protocol/url.js';
+
+// Authentication
+export { StaticBearerAuth, BasicAuth, OAuth2ClientCredentials } from './auth/providers.js';
+export { AuthSession } from './auth/session.js';
+
+// HTTP cache
+export { HttpCache, parseCacheControl } from './cache/httpCache.js';
+export type { CacheFreshness } from './cache/httpCache.js';
+export { InMemoryCacheStore } from './cache/cacheStore.js';
+
+// OpenAPI client generation
+export { generateClient, loadOpenAPIDocument } from './codegen/openapi.js';
+export type { OpenAPIDocument, GenerateClientOptions } from './codegen/openapi.js';
@@ -1,4 +1,21 @@
-import type { OTelSpan, OTelTracer } from '../core/types.js';
+import type {
+  CircuitStateChangeEvent,
+  FallbackCounts,
+  FallbackEvent,
+  MetricDefinition,
+  MetricsConfig,
+  MetricsRegistry,
+  OTelSpan,
+  OTelTracer,
+} from '../core/types.js';
+import { OpenMetricsRegistry } from './openMetrics.js';
+
+export const DEFAULT_METRICS_CONFIG: MetricsConfig = {
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+};
+
+/** How one attempt ended */
+export type AttemptOutcome = 'success' | 'http_error' | 'network_error' | 'timeout';
 
 export interface MetricsSample {
   requestId: string;
@@ -8,17 +25,191 @@ export interface MetricsSample {
   attempt: number;
   status: number | null;
   success: boolean;
+  outcome: AttemptOutcome;
+  /** When the sample was recorded; set by `Metrics.record` */
+  timestamp?: number;
+  /** Time spent waiting for a bulkhead slot before the attempt started */
+  queueWaitMs?: number;
+  /** Time spent waiting for a client-side rate limit token */
+  rateLimitWaitMs?: number;
+}
+
+const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    name: 'strontium_requests',
+    type: 'counter',
+    help: 'HTTP attempts sent, including retries and hedged duplicates that completed or failed.',
+    labelNames: ['method', 'host', 'status', 'outcome'],
+  },
+  {
+    name: 'strontium_request_duration_seconds',
+    type: 'histogram',
+    help: 'Time from sending an attempt to its response or failure.',
+    labelNames: ['method', 'host'],
+  },
+  {
+    name: 'strontium_retries',
+    type: 'counter',
+    help: 'Retries and stream reconnects scheduled.',
+    labelNames: ['method', 'host'],
+  },
+  {
+    name: 'strontium_circuit_transitions',
+    type: 'counter',
+    help: 'Circuit breaker state transitions.',
+    labelNames: ['partition', 'from', 'to'],
+  },
+  {
+    name: 'strontium_fallbacks',
+    type: 'counter',
+    help: 'Fallback responses served in place of an error.',
+    labelNames: ['host', 'source'],
+  },
+  {
+    name: 'strontium_bulkhead_queue_depth',
+    type: 'gauge',
+    help: 'Requests waiting for a bulkhead slot.',
+    labelNames: ['partition'],
+  },
+  {
+    name: 'strontium_bulkhead_queue_wait_seconds',
+    type: 'histogram',
+    help: 'Time requests waited for a bulkhead slot, including those admitted at once.',
+    labelNames: ['partition'],
+  },
+  {
+    name: 'strontium_bulkhead_rejections',
+    type: 'counter',
+    help: 'Requests the bulkhead turned away.',
+    labelNames: ['partition', 'reason'],
+  },
+  {
+    name: 'strontium_rate_limit_wait_seconds',
+    type: 'histogram',
+    help: 'Time requests waited for a rate limit token, including those admitted at once.',
+    labelNames: ['partition'],
+  },
+  {
+    name: 'strontium_rate_limit_rejections',
+    type: 'counter',
+    help: 'Requests rejected by the client-side rate limiter.',
+    labelNames: ['partition'],
+  },
+  {
+    name: 'strontium_in_flight_requests',
+    type: 'gauge',
+    help: 'Requests currently waiting on the transport.',
+    labelNames: ['host'],
+  },
+];
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'unknown';
+  }
 }
 
 export class Metrics {
   private samples: MetricsSample[] = [];
   private readonly maxSamples = 1000;
+  private readonly fallbacks: FallbackCounts = { value: 0, lastKnownGood: 0 };
+  private readonly inFlight = new Map<string, number>();
+  private readonly registry: MetricsRegistry;
+
+  constructor(config: Partial<MetricsConfig> = {}) {
+    const { buckets, registry } = { ...DEFAULT_METRICS_CONFIG, ...config };
+    this.registry = registry ?? new OpenMetricsRegistry();
+    for (const definition of METRIC_DEFINITIONS) {
+      this.emit((r) =>
+        r.describe(definition.type === 'histogram' ? { ...definition, buckets } : definition),
+      );
+    }
+  }
 
   record(sample: MetricsSample): void {
     if (this.samples.length >= this.maxSamples) {
       this.samples.shift();
     }
-    this.samples.push(sample);
+    this.samples.push({ ...sample, timestamp: Date.now() });
+
+    const method = sample.method;
+    const host = hostOf(sample.url);
+    const status = sample.status === null ? 'none' : String(sample.status);
+    this.emit((r) =>
+      r.incrementCounter('strontium_requests', { method, host, status, outcome: sample.outcome }),
+    );
+    this.emit((r) =>
+      r.observeHistogram(
+        'strontium_request_duration_seconds',
+        { method, host },
+        sample.latencyMs / 1000,
+      ),
+    );
+  }
+
+  recordRetry(method: string, url: string): void {
+    this.emit((r) => r.incrementCounter('strontium_retries', { method, host: hostOf(url) }));
+  }
+
+  recordCircuitTransition(event: CircuitStateChangeEvent): void {
+    this.emit((r) =>
+      r.incrementCounter('strontium_circuit_transitions', {
+        partition: event.partition,
+        from: event.from,
+        to: event.to,
+      }),
+    );
+  }
+
+  recordFallback(source: FallbackEvent['source'], url: string): void {
+    this.fallbacks[source] += 1;
+    this.emit((r) => r.incrementCounter('strontium_fallbacks', { host: hostOf(url), source }));
+  }
+
+  recordQueueWait(partition: string, waitMs: number): void {
+    this.emit((r) =>
+      r.observeHistogram('strontium_bulkhead_queue_wait_seconds', { partition }, waitMs / 1000),
+    );
+  }
+
+  recordBulkheadRejection(partition: string, reason: string): void {
+    this.emit((r) => r.incrementCounter('strontium_bulkhead_rejections', { partition, reason }));
+  }
+
+  setQueueDepth(partition: string, queued: number): void {
+    this.emit((r) => r.setGauge('strontium_bulkhead_queue_depth', { partition }, queued));
+  }
+
+  recordRateLimitWait(partition: string, waitMs: number): void {
+    this.emit((r) =>
+      r.observeHistogram('strontium_rate_limit_wait_seconds', { partition }, waitMs / 1000),
+    );
+  }
+
+  recordRateLimitRejection(partition: string): void {
+    this.emit((r) => r.incrementCounter('strontium_rate_limit_rejections', { partition }));
+  }
+
+  /** Tracks a transport call; call the returned function once it settles */
+  trackInFlight(url: string): () => void {
+    const host = hostOf(url);
+    this.adjustInFlight(host, 1);
+    return () => this.adjustInFlight(host, -1);
+  }
+
+  fallbackCounts(): FallbackCounts {
+    return { ...this.fallbacks };
+  }
+
+  /** OpenMetrics text, or an empty string when the registry cannot render one */
+  toOpenMetrics(): string {
+    try {
+      return this.registry.toOpenMetrics?.() ?? '';
+    } catch {
+      return '';
+    }
   }
 
   averageLatency(): number {
@@ -27,9 +218,37 @@ export class Metrics {
     return sum / this.samples.length;
   }
 
+  percentileLatency(percentile: number): number | null {
+    const latencies = this.samples
+      .filter((s) => s.success)
+      .map((s) => s.latencyMs)
+      .sort((a, b) => a - b);
+    if (latencies.length === 0) return null;
+    const index = Math.min(
+      latencies.length - 1,
+      Math.max(0, Math.ceil((percentile / 100) * latencies.length) - 1),
+    );
+    return latencies[index] ?? null;
+  }
+
   recentFailures(windowMs = 60000): number {
     const cutoff = Date.now() - windowMs;
-    return this.samples.filter((s) => !s.success && Date.now() - s.latencyMs > cutoff).length;
+    return this.samples.filter((s) => !s.success && (s.timestamp ?? 0) >= cutoff).length;
+  }
+
+  private adjustInFlight(host: string, delta: number): void {
+    const count = (this.inFlight.get(host) ?? 0) + delta;
+    this.inFlight.set(host, count);
+    this.emit((r) => r.setGauge('strontium_in_flight_requests', { host }, count));
+  }
+
+  // A broken registry must never fail a request
+  private emit(write: (registry: MetricsRegistry) => void): void {
+    try {
+      write(this.registry);
+    } catch {
+      // never crash on instrumentation
+    }
   }
 }
 
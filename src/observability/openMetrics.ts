@@ -0,0 +1,122 @@
+import type { MetricDefinition, MetricsRegistry } from '../core/types.js';
+
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+interface HistogramValue {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Family {
+  definition: MetricDefinition;
+  series: Map<string, { labels: Record<string, string>; value: number | HistogramValue }>;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Record<string, string>, extra?: [string, string]): string {
+  const pairs = Object.entries(labels);
+  if (extra) pairs.push(extra);
+  if (pairs.length === 0) return '';
+  return `{${pairs.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** In-process registry that renders the OpenMetrics text format */
+export class OpenMetricsRegistry implements MetricsRegistry {
+  private families = new Map<string, Family>();
+
+  describe(definition: MetricDefinition): void {
+    if (this.families.has(definition.name)) return;
+    const buckets =
+      definition.type === 'histogram'
+        ? [...(definition.buckets ?? [])].sort((a, b) => a - b)
+        : undefined;
+    this.families.set(definition.name, {
+      definition: { ...definition, ...(buckets ? { buckets } : {}) },
+      series: new Map(),
+    });
+  }
+
+  incrementCounter(name: string, labels: Record<string, string>, value = 1): void {
+    const series = this.series(name, labels, () => 0);
+    if (series) series.value = (series.value as number) + value;
+  }
+
+  setGauge(name: string, labels: Record<string, string>, value: number): void {
+    const series = this.series(name, labels, () => 0);
+    if (series) series.value = value;
+  }
+
+  observeHistogram(name: string, labels: Record<string, string>, value: number): void {
+    const buckets = this.families.get(name)?.definition.buckets ?? [];
+    const series = this.series(name, labels, () => ({
+      counts: buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    if (!series) return;
+    const histogram = series.value as HistogramValue;
+    buckets.forEach((bound, index) => {
+      if (value <= bound) histogram.counts[index] += 1;
+    });
+    histogram.sum += value;
+    histogram.count += 1;
+  }
+
+  toOpenMetrics(): string {
+    const lines: string[] = [];
+    for (const { definition, series } of this.families.values()) {
+      const { name, type, help } = definition;
+      lines.push(`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`);
+      for (const { labels, value } of series.values()) {
+        if (typeof value === 'number') {
+          const sample = type === 'counter' ? `${name}_total` : name;
+          lines.push(`${sample}${formatLabels(labels)} ${formatNumber(value)}`);
+          continue;
+        }
+        (definition.buckets ?? []).forEach((bound, index) => {
+          const le = formatLabels(labels, ['le', formatNumber(bound)]);
+          lines.push(`${name}_bucket${le} ${value.counts[index]}`);
+        });
+        lines.push(
+          `${name}_bucket${formatLabels(labels, ['le', '+Inf'])} ${value.count}`,
+          `${name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`,
+          `${name}_count${formatLabels(labels)} ${value.count}`,
+        );
+      }
+    }
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+  }
+
+  // Undescribed metrics are ignored rather than guessed at
+  private series(
+    name: string,
+    labels: Record<string, string>,
+    create: () => number | HistogramValue,
+  ): { labels: Record<string, string>; value: number | HistogramValue } | undefined {
+    const family = this.families.get(name);
+    if (!family) return undefined;
+    // Label order follows the definition so equal label sets share one series
+    const ordered: Record<string, string> = {};
+    for (const labelName of family.definition.labelNames)
+      ordered[labelName] = labels[labelName] ?? '';
+    const key = JSON.stringify(ordered);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels: ordered, value: create() };
+      family.series.set(key, series);
+    }
+    return series;
+  }
+}
@@ -1,9 +1,54 @@
+type NodeCrypto = typeof import('crypto');
+
+// node:crypto is only loaded where there is no global Web Crypto (Node 16 and older), and
+// never through a static import, so browser and edge bundles stay free of Node builtins
+let nodeCrypto: NodeCrypto | undefined;
+if (
+  typeof process !== 'undefined' &&
+  process.versions?.node !== undefined &&
+  typeof (globalThis as { crypto?: Crypto }).crypto?.getRandomValues !== 'function'
+) {
+  // Older Node has no synchronous way to load a builtin from ESM, so preload it
+  import('crypto').then(
+    (loaded) => (nodeCrypto ??= loaded),
+    () => undefined,
+  );
+}
+
+function loadNodeCrypto(): NodeCrypto | undefined {
+  if (nodeCrypto) return nodeCrypto;
+  const proc = (globalThis as { process?: { getBuiltinModule?: (id: string) => unknown } }).process;
+  nodeCrypto = proc?.getBuiltinModule?.('crypto') as NodeCrypto | undefined;
+  return nodeCrypto;
+}
+
 export function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
 }
 
+// Web Crypto where it is global (browser/edge/node19+), node:crypto otherwise
+function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  const webCrypto = (globalThis as { crypto?: Crypto }).crypto;
+  if (typeof webCrypto?.getRandomValues === 'function') {
+    webCrypto.getRandomValues(buffer);
+  } else {
+    const fallback = loadNodeCrypto();
+    if (!fallback) throw new Error('No secure random source: Web Crypto is unavailable');
+    fallback.randomFillSync(buffer);
+  }
+  return Array.from(buffer, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** 128 random bits; unguessable, so keys cannot collide across clients or processes */
 export function generateIdempotencyKey(): string {
-  return `idem_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  return `idem_${randomHex(16)}`;
+}
+
+/** Whether `headers` sets `name`, compared case-insensitively */
+export function hasHeader(headers: Record<string, string>, name: string): boolean {
+  const wanted = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === wanted);
 }
 
 export function headersToRecord(headers: Headers): Record<string, string> {
@@ -0,0 +1,55 @@
+import { IntegrityViolationError } from '../core/errors.js';
+import type { IdempotencyConfig, IdempotencyRecord, IdempotencyStore } from '../core/types.js';
+import { InMemoryIdempotencyStore } from './idempotencyStore.js';
+
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 10_000,
+  storeResponses: false,
+};
+
+/**
+ * Binds each idempotency key to the hash of its first payload for `ttlMs`. Unlike the
+ * circuit store, read and claim errors propagate: skipping the check would defeat it.
+ */
+export class IdempotencyGuard {
+  private readonly config: IdempotencyConfig;
+  private readonly store: IdempotencyStore;
+  private readonly scope: string;
+
+  constructor(config: Partial<IdempotencyConfig>, defaultScope: string) {
+    this.config = { ...DEFAULT_IDEMPOTENCY_CONFIG, ...config };
+    this.store = this.config.store ?? new InMemoryIdempotencyStore(this.config.maxEntries);
+    this.scope = this.config.scope ?? defaultScope;
+  }
+
+  /** Returns the live record for `key`, creating it on first use */
+  async claim(key: string, payloadHash: string, now = Date.now()): Promise<IdempotencyRecord> {
+    const record = { payloadHash, createdAt: now, expiresAt: now + this.config.ttlMs };
+    const held = await this.store.claim(this.scoped(key), record);
+    if (held.payloadHash !== payloadHash) {
+      throw new IntegrityViolationError(
+        `Idempotency key "${key}" was already used with a different payload.`,
+      );
+    }
+    return held;
+  }
+
+  /** Keeps the first successful response so a replay of the key can return it */
+  async saveResponse(
+    key: string,
+    record: IdempotencyRecord,
+    response: NonNullable<IdempotencyRecord['response']>,
+  ): Promise<void> {
+    if (!this.config.storeResponses || record.response) return;
+    try {
+      await this.store.set(this.scoped(key), { ...record, response });
+    } catch {
+      // the request already succeeded; failing it now would only invite a resend
+    }
+  }
+
+  private scoped(key: string): string {
+    return `${this.scope}:${key}`;
+  }
+}
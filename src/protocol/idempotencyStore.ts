@@ -0,0 +1,106 @@
+import { readJSONFile, withFileLock, writeJSONFile } from '../core/fileStore.js';
+import type { IdempotencyRecord, IdempotencyStore } from '../core/types.js';
+
+/** Bounded by entry count, oldest first; expired records are dropped on read */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(private readonly maxEntries = 10_000) {}
+
+  // Check and insert run in one synchronous step, so no other claim can interleave
+  async claim(
+    key: string,
+    record: IdempotencyRecord,
+    now = Date.now(),
+  ): Promise<IdempotencyRecord> {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > now) return existing;
+    await this.set(key, record);
+    return record;
+  }
+
+  get(key: string, now = Date.now()): Promise<IdempotencyRecord | undefined> {
+    const record = this.records.get(key);
+    if (record && record.expiresAt <= now) {
+      this.records.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(record);
+  }
+
+  set(key: string, record: IdempotencyRecord): Promise<void> {
+    this.records.delete(key);
+    this.records.set(key, record);
+    while (this.records.size > this.maxEntries) {
+      const oldest = this.records.keys().next().value;
+      if (oldest === undefined) break;
+      this.records.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+
+  size(): number {
+    return this.records.size;
+  }
+}
+
+/**
+ * Keeps every key in one JSON file, replaced atomically via rename, so keys survive a
+ * restart and can be shared by processes on one host. Expired records are pruned on write;
+ * writes hold an exclusive `<path>.lock` file so concurrent claims cannot both win.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly path: string,
+    private readonly maxEntries = 10_000,
+  ) {}
+
+  claim(key: string, record: IdempotencyRecord, now = Date.now()): Promise<IdempotencyRecord> {
+    return withFileLock(this.path, async () => {
+      const records = await readJSONFile<IdempotencyRecord>(this.path);
+      const existing = records[key];
+      if (existing && existing.expiresAt > now) return existing;
+      await this.store(records, key, record, now);
+      return record;
+    });
+  }
+
+  async get(key: string, now = Date.now()): Promise<IdempotencyRecord | undefined> {
+    const record = (await readJSONFile<IdempotencyRecord>(this.path))[key];
+    return record && record.expiresAt > now ? record : undefined;
+  }
+
+  set(key: string, record: IdempotencyRecord, now = Date.now()): Promise<void> {
+    return withFileLock(this.path, async () =>
+      this.store(await readJSONFile<IdempotencyRecord>(this.path), key, record, now),
+    );
+  }
+
+  delete(key: string): Promise<void> {
+    return withFileLock(this.path, async () => {
+      const records = await readJSONFile<IdempotencyRecord>(this.path);
+      if (!(key in records)) return;
+      delete records[key];
+      await writeJSONFile(this.path, records);
+    });
+  }
+
+  private async store(
+    records: Record<string, IdempotencyRecord>,
+    key: string,
+    record: IdempotencyRecord,
+    now: number,
+  ): Promise<void> {
+    delete records[key];
+    records[key] = record;
+    const live = Object.entries(records)
+      .filter(([, entry]) => entry.expiresAt > now)
+      .slice(-this.maxEntries);
+    await writeJSONFile(this.path, Object.fromEntries(live));
+  }
+}
@@ -1,37 +1,88 @@
-import { IntegrityViolationError } from '../core/errors.js';
+import { isStreamBody } from '../transport/body.js';
 
-// Use SubtleCrypto if available (browser/edge/node18+), fallback to simple hash
-async function sha256(data: string): Promise<string> {
-  if (typeof crypto !== 'undefined' && crypto.subtle) {
-    const encoder = new TextEncoder();
-    const buffer = await crypto.subtle.digest('SHA-256', encoder.encode(data));
+// SubtleCrypto where it is global (browser/edge/node19+), node:crypto otherwise
+async function sha256(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const subtle = (globalThis as { crypto?: Crypto }).crypto?.subtle;
+  if (subtle) {
+    const buffer = await subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>);
     return Array.from(new Uint8Array(buffer))
       .map((b) => b.toString(16).padStart(2, '0'))
       .join('');
   }
-  // Node.js fallback using require
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const { createHash } = require('crypto') as typeof import('crypto');
-  return createHash('sha256').update(data).digest('hex');
+  // Loaded lazily so browser and edge bundles carry no Node builtin import
+  const { createHash } = await import('crypto');
+  return createHash('sha256').update(bytes).digest('hex');
 }
 
-export async function computePayloadHash(body: unknown): Promise<string> {
-  const serialized = body === undefined ? '' : JSON.stringify(body);
-  return sha256(serialized);
+/**
+ * JSON with object keys sorted, so equal payloads serialize identically. Follows
+ * JSON.stringify otherwise: `toJSON` is honored (Dates become ISO strings), undefined and
+ * functions are dropped from objects and become null in arrays, and non-finite numbers are
+ * null. BigInt, which JSON.stringify rejects, is written as its decimal digits.
+ */
+export function canonicalJSON(value: unknown): string {
+  const seen = new Set<object>();
+  const write = (input: unknown, inArray: boolean): string | undefined => {
+    let current = input;
+    if (
+      current !== null &&
+      typeof current === 'object' &&
+      typeof (current as { toJSON?: unknown }).toJSON === 'function'
+    ) {
+      current = (current as { toJSON: () => unknown }).toJSON();
+    }
+    switch (typeof current) {
+      case 'bigint':
+        return current.toString();
+      case 'number':
+        return Number.isFinite(current) ? JSON.stringify(current) : 'null';
+      case 'string':
+      case 'boolean':
+        return JSON.stringify(current);
+      case 'undefined':
+      case 'function':
+      case 'symbol':
+        return inArray ? 'null' : undefined;
+    }
+    if (current === null) return 'null';
+
+    const node = current as object;
+    if (seen.has(node)) throw new TypeError('Cannot hash a circular payload');
+    seen.add(node);
+    let result: string;
+    if (Array.isArray(node)) {
+      result = `[${node.map((item: unknown) => write(item, true)).join(',')}]`;
+    } else {
+      const fields: string[] = [];
+      for (const key of Object.keys(node).sort()) {
+        const field = write((node as Record<string, unknown>)[key], false);
+        if (field !== undefined) fields.push(`${JSON.stringify(key)}:${field}`);
+      }
+      result = `{${fields.join(',')}}`;
+    }
+    seen.delete(node);
+    return result;
+  };
+  return write(value, false) ?? '';
 }
 
-const idempotencyKeyHashes = new Map<string, string>();
+/** Whether `computePayloadHash` can read the body without consuming it */
+export function isHashablePayload(body: unknown): boolean {
+  return !isStreamBody(body) && !(typeof FormData !== 'undefined' && body instanceof FormData);
+}
 
-export async function enforceIntegrity(idempotencyKey: string, body: unknown): Promise<string> {
-  const hash = await computePayloadHash(body);
-  const existing = idempotencyKeyHashes.get(idempotencyKey);
-  if (existing !== undefined && existing !== hash) {
-    throw new IntegrityViolationError(
-      `Idempotency key "${idempotencyKey}" was already used with a different payload.`,
-    );
+// Binary bodies hash their bytes, form bodies their encoding, everything else canonical JSON
+export async function computePayloadHash(body: unknown): Promise<string> {
+  if (body instanceof ArrayBuffer) return sha256(new Uint8Array(body));
+  if (ArrayBuffer.isView(body)) {
+    return sha256(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return sha256(new Uint8Array(await body.arrayBuffer()));
   }
-  idempotencyKeyHashes.set(idempotencyKey, hash);
-  return hash;
+  if (body instanceof URLSearchParams) return sha256(body.toString());
+  return sha256(body === undefined ? '' : canonicalJSON(body));
 }
 
 export function computeDedupeKey(method: string, url: string, bodyHash: string): string {
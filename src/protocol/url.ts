@@ -0,0 +1,122 @@
+import type { ArrayFormat, QueryParams, QueryValue } from '../core/types.js';
+import { InvalidRequestError } from '../core/errors.js';
+
+// RFC 3986 scheme followed by '://' — 'httpbin-path' or '/http/x' stay relative
+const ABSOLUTE_URL = /^[a-z][a-z\d+\-.]*:\/\//i;
+const PATH_PARAM = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+export function isAbsoluteURL(url: string): boolean {
+  return ABSOLUTE_URL.test(url);
+}
+
+/** Joins with exactly one slash between base and path; absolute URLs are returned unchanged */
+export function joinURL(baseURL: string, url: string): string {
+  if (isAbsoluteURL(url)) return url;
+  if (url === '') return baseURL;
+  if (url.startsWith('?') || url.startsWith('#')) return `${baseURL}${url}`;
+  return `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
+
+/** Replaces `:name` segments with URL-encoded values, e.g. '/users/:id' → '/users/42' */
+export function interpolatePath(
+  template: string,
+  pathParams: Record<string, string | number>,
+): string {
+  return template.replace(PATH_PARAM, (_, name: string) => {
+    const value = pathParams[name];
+    if (value === undefined) {
+      throw new InvalidRequestError(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+type QueryScalar = string | number | boolean | Date;
+
+function isScalar(value: QueryValue): value is QueryScalar {
+  return (
+    value !== null && value !== undefined && (typeof value !== 'object' || value instanceof Date)
+  );
+}
+
+function serializeValue(value: QueryScalar): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function appendPairs(
+  pairs: string[],
+  key: string,
+  value: QueryValue,
+  arrayFormat: ArrayFormat,
+): void {
+  if (value === null || value === undefined) return;
+
+  if (Array.isArray(value)) {
+    const items = value.filter((item) => item !== null && item !== undefined);
+    if (arrayFormat === 'comma') {
+      // Only flat values can be comma-joined; nested entries are dropped
+      const scalars = items.filter(isScalar);
+      if (scalars.length > 0) {
+        const joined = scalars.map((item) => encodeURIComponent(serializeValue(item))).join(',');
+        pairs.push(`${encodeURIComponent(key)}=${joined}`);
+      }
+      return;
+    }
+    items.forEach((item, index) => {
+      const itemKey =
+        arrayFormat === 'brackets'
+          ? `${key}[]`
+          : arrayFormat === 'indices'
+            ? `${key}[${index}]`
+            : key;
+      appendPairs(pairs, itemKey, item, arrayFormat);
+    });
+    return;
+  }
+
+  if (!isScalar(value)) {
+    for (const [child, childValue] of Object.entries(value)) {
+      appendPairs(pairs, `${key}[${child}]`, childValue, arrayFormat);
+    }
+    return;
+  }
+
+  pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(serializeValue(value))}`);
+}
+
+/**
+ * Serializes query params. `null`/`undefined` are skipped, dates become ISO strings and
+ * nested objects use bracket keys (`filter[status]=open`). Keys and values are
+ * percent-encoded, so spaces become `%20`.
+ */
+export function serializeParams(params: QueryParams, arrayFormat: ArrayFormat = 'repeat'): string {
+  const pairs: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    appendPairs(pairs, key, value, arrayFormat);
+  }
+  return pairs.join('&');
+}
+
+export interface BuildURLOptions {
+  params?: QueryParams | undefined;
+  pathParams?: Record<string, string | number> | undefined;
+  arrayFormat?: ArrayFormat | undefined;
+}
+
+export function buildURL(baseURL: string, url: string, options: BuildURLOptions = {}): string {
+  const path = options.pathParams ? interpolatePath(url, options.pathParams) : url;
+  let full = joinURL(baseURL, path);
+  const query = options.params ? serializeParams(options.params, options.arrayFormat) : '';
+  if (query) {
+    const hashIndex = full.indexOf('#');
+    const hash = hashIndex === -1 ? '' : full.slice(hashIndex);
+    if (hashIndex !== -1) full = full.slice(0, hashIndex);
+    const separator = full.includes('?')
+      ? full.endsWith('?') || full.endsWith('&')
+        ? ''
+        : '&'
+      : '?';
+    full = `${full}${separator}${query}${hash}`;
+  }
+  return full;
+}
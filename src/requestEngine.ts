@@ -2,50 +2,173 @@ import { StateMachine } from './core/stateMachine.js';
 import {
   NetworkError,
   TimeoutError,
+  DeadlineExceededError,
   RetryExhaustedError,
+  RetryAfterExceededError,
+  RetryBudgetExhaustedError,
+  RateLimitedError,
+  BulkheadRejectedError,
   ResponseValidationError,
+  RequestValidationError,
 } from './core/errors.js';
 import type {
   StrontiumClientConfig,
   RequestOptions,
+  StreamOptions,
+  StreamEvent,
+  MethodOptionsArgs,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareOptions,
+  Validator,
   StrontiumResponse,
   HealthStatus,
   Hooks,
+  HookContext,
   RetryConfig,
+  HttpMethod,
+  ProtocolMode,
+  HedgingConfig,
+  CircuitOutcome,
+  CircuitState,
+  CacheEntry,
+  IdempotencyRecord,
+  FallbackConfig,
+  FallbackEvent,
 } from './core/types.js';
-import { DEFAULT_RETRY_CONFIG, shouldRetry, backoff } from './resilience/retry.js';
-import { CircuitBreaker } from './resilience/circuitBreaker.js';
+import {
+  DEFAULT_RETRY_CONFIG,
+  shouldRetry,
+  getRetryDelay,
+  sleep,
+  parseRetryAfter,
+} from './resilience/retry.js';
+import { Deadline, DEADLINE_HEADER } from './resilience/deadline.js';
+import { hedge, DEFAULT_HEDGING_CONFIG } from './resilience/hedge.js';
+import { RetryBudget } from './resilience/retryBudget.js';
+import type { CircuitBreaker } from './resilience/circuitBreaker.js';
+import { DEFAULT_CIRCUIT_BREAKER_CONFIG } from './resilience/circuitBreaker.js';
+import { CircuitBreakerRegistry } from './resilience/circuitRegistry.js';
+import { resolvePartitionKey } from './resilience/partition.js';
+import { Bulkhead, DEFAULT_BULKHEAD_CONFIG } from './resilience/bulkhead.js';
+import type { Release } from './resilience/bulkhead.js';
+import { AdaptiveLimiter } from './resilience/adaptiveLimit.js';
+import { RateLimiter, DEFAULT_RATE_LIMIT_CONFIG } from './resilience/rateLimiter.js';
 import { withTimeout, createAbortController } from './resilience/timeout.js';
 import { DedupeMap } from './resilience/dedupe.js';
-import { generateRequestId, generateIdempotencyKey, headersToRecord } from './protocol/headers.js';
-import { computePayloadHash, enforceIntegrity, computeDedupeKey } from './protocol/payloadHash.js';
+import { LastKnownGood, isFallbackEligible, resolveFallbackValue } from './resilience/fallback.js';
+import {
+  generateRequestId,
+  generateIdempotencyKey,
+  hasHeader,
+  headersToRecord,
+} from './protocol/headers.js';
+import { buildURL, isAbsoluteURL } from './protocol/url.js';
+import { parseResponseBody, serializeBody } from './transport/body.js';
+import { parseServerSentEvents, parseNdjson } from './transport/eventStream.js';
+import {
+  canonicalJSON,
+  computePayloadHash,
+  computeDedupeKey,
+  isHashablePayload,
+} from './protocol/payloadHash.js';
+import { IdempotencyGuard } from './protocol/idempotency.js';
 import { Metrics, startSpan, endSpan } from './observability/instrumentation.js';
 import { createHookRunner } from './hooks/lifecycle.js';
+import type { HookRunner } from './hooks/lifecycle.js';
 import { defaultTransport } from './transport/fetchTransport.js';
+import { AuthSession, createAuthMiddleware } from './auth/session.js';
+import { HttpCache, isStaleIfErrorEligible, parseCacheControl } from './cache/httpCache.js';
+
+function validateBody<TBody>(bodySchema: Validator<TBody> | undefined, body: unknown): unknown {
+  if (!bodySchema || body === undefined) return body;
+  try {
+    return bodySchema.parse(body);
+  } catch (err) {
+    throw new RequestValidationError('Request body validation failed', err);
+  }
+}
+
+function validateResponse(plan: ResolvedRequest, status: number, data: unknown): unknown {
+  const responseSchema = plan.statusSchemas?.[status] ?? plan.schema;
+  if (!responseSchema || !plan.validate) return data;
+  try {
+    return responseSchema.parse(data);
+  } catch (err) {
+    throw new ResponseValidationError('Response validation failed', err);
+  }
+}
+
+const CIRCUIT_SEVERITY: Record<CircuitState, number> = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 };
 
-const MAX_CONCURRENT_REQUESTS = 100;
+// A request with client defaults and per-request overrides already merged
+interface ResolvedRequest {
+  requestId: string;
+  method: HttpMethod;
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+  schema: RequestOptions['schema'];
+  statusSchemas: RequestOptions['statusSchemas'];
+  validate: boolean;
+  timeoutMs: number;
+  deadlineMs: number | undefined;
+  retryConfig: RetryConfig;
+  protocolMode: ProtocolMode;
+  bypassCircuitBreaker: boolean;
+  circuitKey: string;
+  circuitBreaker: CircuitBreaker;
+  bulkheadKey: string;
+  rateLimitKey: string;
+  hedging: boolean;
+  // Set when the response goes through the HTTP cache
+  cache: { key: string; entry: CacheEntry | null } | null;
+  options: RequestOptions;
+}
 
 export class StrontiumClient {
   private readonly config: Required<StrontiumClientConfig>;
-  private readonly circuitBreaker: CircuitBreaker;
+  private readonly circuits: CircuitBreakerRegistry;
+  private readonly retryBudget: RetryBudget;
   private readonly dedupeMap: DedupeMap;
   private readonly metrics: Metrics;
   private readonly retryConfig: RetryConfig;
-  private inFlight = 0;
-  private hooks: Hooks = {};
+  private readonly hedgingConfig: HedgingConfig;
+  private readonly bulkhead: Bulkhead;
+  private readonly adaptiveLimiter: AdaptiveLimiter | null;
+  private readonly rateLimiter: RateLimiter | null;
+  private readonly cache: HttpCache;
+  private readonly revalidating = new Set<string>();
+  private readonly lastKnownGood = new LastKnownGood();
+  private readonly idempotency: IdempotencyGuard;
+  private readonly hooks: Hooks[] = [];
+  private readonly middleware: { middleware: Middleware; order: number }[] = [];
 
   constructor(config: StrontiumClientConfig) {
     this.config = {
       baseURL: config.baseURL,
+      auth: config.auth ?? undefined,
+      fallback: config.fallback ?? undefined,
+      idempotency: config.idempotency ?? {},
+      metrics: config.metrics ?? {},
       retry: { ...DEFAULT_RETRY_CONFIG, ...config.retry },
+      retryBudget: config.retryBudget ?? {},
       circuitBreaker: config.circuitBreaker ?? {},
+      bulkhead: config.bulkhead ?? {},
+      adaptiveConcurrency: config.adaptiveConcurrency ?? {},
+      rateLimit: config.rateLimit ?? {},
+      hedging: config.hedging ?? {},
       timeoutMs: config.timeoutMs ?? 30000,
+      deadlineMs: config.deadlineMs ?? undefined,
       dedupe: config.dedupe ?? true,
       protocolMode: config.protocolMode ?? 'standard',
       mode: config.mode ?? 'strict',
+      validate: config.validate ?? (config.mode ?? 'strict') === 'strict',
       transport: config.transport ?? defaultTransport,
       tracer: config.tracer ?? undefined,
       headers: config.headers ?? {},
+      arrayFormat: config.arrayFormat ?? 'repeat',
+      cache: config.cache ?? {},
     } as Required<StrontiumClientConfig>;
 
     this.retryConfig = {
@@ -53,170 +176,780 @@ export class StrontiumClient {
       ...config.retry,
       retryOn: config.retry?.retryOn ?? DEFAULT_RETRY_CONFIG.retryOn,
     };
-    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+    this.hedgingConfig = { ...DEFAULT_HEDGING_CONFIG, ...config.hedging };
+    this.metrics = new Metrics(config.metrics);
+    this.circuits = new CircuitBreakerRegistry(
+      config.circuitBreaker,
+      config.circuitBreaker?.maxPartitions ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.maxPartitions,
+      (event) => {
+        this.metrics.recordCircuitTransition(event);
+        void createHookRunner(this.hooks).onCircuitStateChange(event);
+      },
+    );
+    this.retryBudget = new RetryBudget(config.retryBudget);
+    this.bulkhead = new Bulkhead(config.bulkhead, (partition, queued) =>
+      this.metrics.setQueueDepth(partition, queued),
+    );
+    this.adaptiveLimiter = config.adaptiveConcurrency?.enabled
+      ? new AdaptiveLimiter(config.adaptiveConcurrency)
+      : null;
+    this._applyAdaptiveLimit();
+    this.rateLimiter = config.rateLimit?.enabled ? new RateLimiter(config.rateLimit) : null;
     this.dedupeMap = new DedupeMap();
-    this.metrics = new Metrics();
+    this.cache = new HttpCache(config.cache);
+    this.idempotency = new IdempotencyGuard(config.idempotency ?? {}, config.baseURL);
+    // Innermost, so a 401 replay does not run the user's middleware twice
+    if (config.auth) {
+      this.useMiddleware(createAuthMiddleware(new AuthSession(config.auth)), { order: Infinity });
+    }
   }
 
+  /** Adds observe-only hooks; every registration runs, in the order added */
   use(hooks: Hooks): this {
-    this.hooks = { ...this.hooks, ...hooks };
+    this.hooks.push(hooks);
     return this;
   }
 
-  async request<T = unknown>(options: RequestOptions): Promise<StrontiumResponse<T>> {
-    const { method, url, body, headers = {}, schema, timeoutMs } = options;
-    const fullUrl = url.startsWith('http') ? url : `${this.config.baseURL}${url}`;
-    const requestId = generateRequestId();
-    const effectiveTimeout = timeoutMs ?? this.config.timeoutMs;
+  /** Inserts middleware around the transport and returns a function that removes it */
+  useMiddleware(middleware: Middleware, options: MiddlewareOptions = {}): () => void {
+    const entry = { middleware, order: options.order ?? 0 };
+    const index = this.middleware.findIndex((existing) => existing.order > entry.order);
+    this.middleware.splice(index === -1 ? this.middleware.length : index, 0, entry);
+    return () => {
+      const position = this.middleware.indexOf(entry);
+      if (position !== -1) this.middleware.splice(position, 1);
+    };
+  }
+
+  async request<T = unknown, TBody = unknown>(
+    options: RequestOptions<TBody, T>,
+  ): Promise<StrontiumResponse<T>> {
+    const { method, headers = {}, schema, timeoutMs } = options;
+    const validate = options.validate ?? this.config.validate;
+    const body = validate ? validateBody(options.bodySchema, options.body) : options.body;
+    const { fullUrl, route } = this._resolveTarget(options);
+    const retryConfig = this._resolveRetryConfig(options.retry);
+    const partitionInput = {
+      method,
+      url: fullUrl,
+      ...(route !== undefined ? { route } : {}),
+    };
+    const circuitKey = resolvePartitionKey(
+      this.config.circuitBreaker.partitionBy ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.partitionBy,
+      partitionInput,
+    );
+    const plan: ResolvedRequest = {
+      requestId: generateRequestId(),
+      method,
+      url: fullUrl,
+      body,
+      headers,
+      schema,
+      statusSchemas: options.statusSchemas,
+      validate,
+      timeoutMs: timeoutMs ?? this.config.timeoutMs,
+      deadlineMs: options.deadlineMs ?? this.config.deadlineMs,
+      retryConfig,
+      protocolMode: options.protocolMode ?? this.config.protocolMode,
+      bypassCircuitBreaker: options.bypassCircuitBreaker ?? false,
+      circuitKey,
+      circuitBreaker: this.circuits.get(circuitKey),
+      bulkheadKey: resolvePartitionKey(
+        this.config.bulkhead.partitionBy ?? DEFAULT_BULKHEAD_CONFIG.partitionBy,
+        partitionInput,
+      ),
+      rateLimitKey: resolvePartitionKey(
+        this.config.rateLimit.partitionBy ?? DEFAULT_RATE_LIMIT_CONFIG.partitionBy,
+        partitionInput,
+      ),
+      hedging:
+        (options.hedging ?? this.hedgingConfig.enabled) && (method === 'GET' || method === 'HEAD'),
+      cache: null,
+      options,
+    };
+
+    // Only GETs are cached, and a stream cannot be both stored and handed over
+    const cached =
+      method === 'GET' &&
+      (options.cache ?? this.config.cache.enabled ?? false) &&
+      options.responseType !== 'stream';
+    const pending = cached ? this._executeCached<T>(plan) : this._execute<T>(plan);
+    const fallback =
+      options.fallback === false
+        ? undefined
+        : (options.fallback ?? (this.config.fallback as FallbackConfig<T> | undefined));
+    return fallback ? this._withFallback(plan, fallback, pending) : pending;
+  }
+
+  private async _withFallback<T>(
+    plan: ResolvedRequest,
+    fallback: FallbackConfig<T>,
+    pending: Promise<StrontiumResponse<T>>,
+  ): Promise<StrontiumResponse<T>> {
+    const key = `${plan.method} ${plan.url}`;
+    try {
+      const response = await pending;
+      // A stream body is consumed by the caller and cannot be served twice
+      if (fallback.lastKnownGood && plan.options.responseType !== 'stream') {
+        this.lastKnownGood.record(key, response);
+      }
+      return response;
+    } catch (err) {
+      if (!isFallbackEligible(err)) throw err;
+      const ctx: HookContext = {
+        method: plan.method,
+        url: plan.url,
+        attempt: err instanceof RetryExhaustedError ? err.attempts : 1,
+        requestId: plan.requestId,
+      };
+
+      let response: StrontiumResponse<T>;
+      let source: FallbackEvent['source'];
+      const stored = fallback.lastKnownGood ? this.lastKnownGood.get(key) : undefined;
+      if (stored) {
+        response = { ...(stored as StrontiumResponse<T>), requestId: plan.requestId };
+        source = 'lastKnownGood';
+      } else if (fallback.value !== undefined) {
+        response = {
+          data: await resolveFallbackValue(fallback.value, err, ctx),
+          status: 200,
+          headers: {},
+          requestId: plan.requestId,
+          attempt: ctx.attempt,
+          latencyMs: 0,
+        };
+        source = 'value';
+      } else {
+        throw err;
+      }
+
+      this.metrics.recordFallback(source, plan.url);
+      await createHookRunner(this.hooks).onFallback(ctx, { error: err, source });
+      return { ...response, fromFallback: true };
+    }
+  }
+
+  private async _execute<T>(plan: ResolvedRequest): Promise<StrontiumResponse<T>> {
+    const { method, url, body, retryConfig, options } = plan;
+    const dedupe = options.dedupe ?? this.config.dedupe;
 
     // Dedupe
+    // A stream can only be read once, so it is never shared between callers
     if (
-      this.config.dedupe &&
+      dedupe &&
       (method === 'GET' || method === 'HEAD') &&
-      this.retryConfig.maxAttempts <= 1
+      retryConfig.maxAttempts <= 1 &&
+      options.responseType !== 'stream'
     ) {
       const bodyHash = await computePayloadHash(body);
-      const dedupeKey = computeDedupeKey(method, fullUrl, bodyHash);
+      const dedupeKey = computeDedupeKey(method, url, bodyHash);
       const existing = this.dedupeMap.get(dedupeKey);
       if (existing) {
         return existing as Promise<StrontiumResponse<T>>;
       }
-      const promise = this._executeWithRetry<T>(
-        requestId,
-        method,
-        fullUrl,
-        body,
-        headers,
-        schema,
-        effectiveTimeout,
-        options,
-      );
+      const promise = this._executeWithRetry<T>(plan);
       this.dedupeMap.set(dedupeKey, promise as Promise<unknown>);
       return promise;
     }
 
-    return this._executeWithRetry<T>(
-      requestId,
-      method,
-      fullUrl,
-      body,
-      headers,
-      schema,
-      effectiveTimeout,
-      options,
+    return this._executeWithRetry<T>(plan);
+  }
+
+  private async _executeCached<T>(plan: ResolvedRequest): Promise<StrontiumResponse<T>> {
+    const key = `${plan.method} ${plan.url}`;
+    const requestHeaders = { ...this.config.headers, ...plan.headers };
+    const cacheControl = Object.entries(requestHeaders).find(
+      ([name]) => name.toLowerCase() === 'cache-control',
+    )?.[1];
+    const directives = parseCacheControl(cacheControl ?? null);
+    if (directives.has('no-store')) return this._execute<T>(plan);
+
+    const entry = await this.cache.lookup(key, requestHeaders);
+    // A request no-cache still uses the entry, but only to revalidate
+    if (entry && !directives.has('no-cache')) {
+      const freshness = this.cache.freshness(entry);
+      if (freshness === 'fresh') return this._fromCache<T>(plan, entry, 'hit');
+      if (freshness === 'stale-while-revalidate') {
+        this._revalidate(plan, key, entry);
+        return this._fromCache<T>(plan, entry, 'stale');
+      }
+    }
+
+    try {
+      return await this._execute<T>({ ...plan, cache: { key, entry } });
+    } catch (err) {
+      // Only upstream failures are covered; a 4xx, bad data or a caller abort still throws
+      if (
+        entry &&
+        isStaleIfErrorEligible(err) &&
+        !plan.options.signal?.aborted &&
+        this.cache.usableOnError(entry)
+      ) {
+        return this._fromCache<T>(plan, entry, 'stale');
+      }
+      throw err;
+    }
+  }
+
+  private _revalidate(plan: ResolvedRequest, key: string, entry: CacheEntry): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    // Background refresh: the caller already has the stale copy, so failures are dropped
+    void this._execute({ ...plan, requestId: generateRequestId(), cache: { key, entry } })
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private async _fromCache<T>(
+    plan: ResolvedRequest,
+    entry: CacheEntry,
+    cache: 'hit' | 'stale',
+  ): Promise<StrontiumResponse<T>> {
+    const raw = await parseResponseBody(
+      this.cache.toResponse(entry),
+      plan.options.responseType ?? 'auto',
+      undefined,
+      createAbortController(),
     );
+    return {
+      data: validateResponse(plan, entry.status, raw) as T,
+      status: entry.status,
+      headers: { ...entry.headers },
+      requestId: plan.requestId,
+      attempt: 0,
+      latencyMs: 0,
+      cache,
+    };
   }
 
-  private async _executeWithRetry<T>(
-    requestId: string,
-    method: string,
-    url: string,
-    body: unknown,
-    headers: Record<string, string>,
-    schema: RequestOptions['schema'],
-    timeoutMs: number,
-    options: RequestOptions,
+  get<T = unknown, P extends string = string>(
+    url: P,
+    ...[options]: MethodOptionsArgs<P, T>
   ): Promise<StrontiumResponse<T>> {
-    const machine = new StateMachine();
+    return this.request<T>({ ...options, method: 'GET', url });
+  }
+
+  post<T = unknown, P extends string = string>(
+    url: P,
+    body?: unknown,
+    ...[options]: MethodOptionsArgs<P, T>
+  ): Promise<StrontiumResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', url, body });
+  }
+
+  put<T = unknown, P extends string = string>(
+    url: P,
+    body?: unknown,
+    ...[options]: MethodOptionsArgs<P, T>
+  ): Promise<StrontiumResponse<T>> {
+    return this.request<T>({ ...options, method: 'PUT', url, body });
+  }
+
+  patch<T = unknown, P extends string = string>(
+    url: P,
+    body?: unknown,
+    ...[options]: MethodOptionsArgs<P, T>
+  ): Promise<StrontiumResponse<T>> {
+    return this.request<T>({ ...options, method: 'PATCH', url, body });
+  }
+
+  delete<T = unknown, P extends string = string>(
+    url: P,
+    ...[options]: MethodOptionsArgs<P, T>
+  ): Promise<StrontiumResponse<T>> {
+    return this.request<T>({ ...options, method: 'DELETE', url });
+  }
+
+  head<P extends string = string>(
+    url: P,
+    ...[options]: MethodOptionsArgs<P, string>
+  ): Promise<StrontiumResponse<string>> {
+    return this.request<string>({ ...options, method: 'HEAD', url });
+  }
+
+  options<T = unknown, P extends string = string>(
+    url: P,
+    ...[options]: MethodOptionsArgs<P, T>
+  ): Promise<StrontiumResponse<T>> {
+    return this.request<T>({ ...options, method: 'OPTIONS', url });
+  }
+
+  /**
+   * Opens an SSE or NDJSON feed and yields each event once validated. Dropped connections
+   * are re-established with the retry config's backoff, resuming SSE from the last event id.
+   * Ends quietly when `signal` aborts or the consumer stops iterating.
+   */
+  async *stream<T = unknown>(options: StreamOptions<unknown, T>): AsyncGenerator<StreamEvent<T>> {
+    const { body, headers = {}, schema, signal } = options;
+    const validate = options.validate ?? this.config.validate;
+    const method = options.method ?? 'GET';
+    const format = options.format ?? 'sse';
+    const { fullUrl, route } = this._resolveTarget(options);
+    const retryConfig = this._resolveRetryConfig(options.retry);
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const bypassCircuitBreaker = options.bypassCircuitBreaker ?? false;
+    const circuitKey = resolvePartitionKey(
+      this.config.circuitBreaker.partitionBy ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.partitionBy,
+      {
+        method,
+        url: fullUrl,
+        ...(route !== undefined ? { route } : {}),
+      },
+    );
+    const requestId = generateRequestId();
     const hookRunner = createHookRunner(this.hooks);
-    const ctx = { method, url, attempt: 0, requestId };
+    const ctx: HookContext = { method, url: fullUrl, attempt: 0, requestId };
+    const serialized =
+      body !== undefined && method !== 'GET' && method !== 'HEAD' ? serializeBody(body) : null;
+    const baseHeaders: Record<string, string> = {
+      Accept: format === 'sse' ? 'text/event-stream' : 'application/x-ndjson',
+      'X-Request-Id': requestId,
+      ...this.config.headers,
+      ...headers,
+    };
+    if (serialized?.contentType && !hasHeader(baseHeaders, 'content-type')) {
+      baseHeaders['Content-Type'] = serialized.contentType;
+    }
+    const retryContext = {
+      method,
+      hasIdempotencyKey: Object.keys(baseHeaders).some(
+        (name) => name.toLowerCase() === 'idempotency-key',
+      ),
+      replayable: serialized?.replayable ?? true,
+    };
 
-    machine.transition('PENDING');
+    const toData = (raw: unknown): T => {
+      if (!schema || !validate) return raw as T;
+      try {
+        return schema.parse(raw);
+      } catch (err) {
+        throw new ResponseValidationError('Stream event validation failed', err);
+      }
+    };
 
+    let lastEventId = options.lastEventId;
+    let serverRetryMs: number | null = null;
+    let failures = 0;
     let lastError: unknown;
 
-    for (let attempt = 1; attempt <= this.retryConfig.maxAttempts; attempt++) {
-      ctx.attempt = attempt;
+    this.retryBudget.recordRequest();
+
+    for (;;) {
+      if (signal?.aborted) return;
+      ctx.attempt = failures + 1;
 
-      if (this.inFlight >= MAX_CONCURRENT_REQUESTS) {
-        throw new NetworkError('Max concurrent requests exceeded');
+      const breaker = this.circuits.get(circuitKey);
+      if (!bypassCircuitBreaker) {
+        await this.circuits.sync(circuitKey);
+        try {
+          breaker.check();
+        } catch (err) {
+          await hookRunner.onCircuitOpen(ctx);
+          await hookRunner.onError(ctx, err);
+          throw err;
+        }
       }
+      await hookRunner.beforeRequest(ctx);
+
+      const controller = createAbortController();
+      const onAbort = (): void => controller.abort();
+      signal?.addEventListener('abort', onAbort);
+      const record = (outcome: CircuitOutcome): void => {
+        if (!bypassCircuitBreaker) breaker.recordOutcome(outcome);
+      };
+      const startTime = Date.now();
+      let retryAfterMs: number | null = null;
+      let statusCode: number | null = null;
 
       try {
-        this.circuitBreaker.check();
+        const requestHeaders = {
+          ...baseHeaders,
+          ...(format === 'sse' && lastEventId !== undefined
+            ? { 'Last-Event-ID': lastEventId }
+            : {}),
+        };
+        const response = await withTimeout(
+          this._dispatch(
+            {
+              requestId,
+              attempt: ctx.attempt,
+              method,
+              url: fullUrl,
+              headers: requestHeaders,
+              body: serialized?.body,
+              signal: controller.signal,
+              options,
+            },
+            serialized && !serialized.replayable ? ({ duplex: 'half' } as RequestInit) : {},
+          ),
+          timeoutMs,
+          controller,
+        );
+        statusCode = response.status;
+        record({ status: statusCode, durationMs: Date.now() - startTime });
+
+        if (!response.ok || !response.body) {
+          lastError = new NetworkError(`HTTP ${statusCode}`, undefined, statusCode);
+          retryAfterMs = retryConfig.respectRetryAfter ? parseRetryAfter(response.headers) : null;
+        } else if (format === 'ndjson') {
+          for await (const line of parseNdjson(response.body)) {
+            failures = 0;
+            yield { data: toData(line) };
+          }
+          return;
+        } else {
+          const parseData = options.parseData ?? true;
+          const messages = parseServerSentEvents(response.body, (ms) => {
+            serverRetryMs = ms;
+          });
+          for await (const message of messages) {
+            failures = 0;
+            if (message.id !== undefined) lastEventId = message.id;
+            yield {
+              data: toData(parseData ? JSON.parse(message.data) : message.data),
+              ...(message.event !== undefined ? { event: message.event } : {}),
+              ...(message.id !== undefined ? { id: message.id } : {}),
+            };
+          }
+          // The server closed the feed; SSE clients reconnect
+          lastError = new NetworkError('Event stream closed');
+        }
       } catch (err) {
-        await hookRunner.onCircuitOpen(ctx);
-        machine.transition('ERROR');
-        throw err;
+        if (signal?.aborted) return;
+        const transient =
+          err instanceof TimeoutError ||
+          err instanceof TypeError ||
+          (err instanceof Error && err.name === 'AbortError');
+        if (!transient) {
+          await hookRunner.onError(ctx, err);
+          throw err;
+        }
+        lastError =
+          err instanceof TypeError || err instanceof TimeoutError
+            ? err
+            : new TimeoutError(timeoutMs);
+        record({ status: null, error: lastError, durationMs: Date.now() - startTime });
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        // Releases the connection when the consumer stops early
+        controller.abort();
       }
 
-      await hookRunner.beforeRequest(ctx);
+      // Events received on this connection reset the count, so a long-lived feed keeps reconnecting
+      ctx.attempt = failures + 1;
+      // A dropped or closed connection is judged like a network error
+      const failedStatus = statusCode !== null && statusCode >= 400 ? statusCode : null;
+      if (
+        !shouldRetry(retryConfig, null, failedStatus, ctx.attempt, {
+          ...retryContext,
+          retryAfterMs,
+        })
+      ) {
+        break;
+      }
+      if (!this.retryBudget.tryAcquire()) {
+        lastError = new RetryBudgetExhaustedError(lastError);
+        break;
+      }
+      failures += 1;
+      this.metrics.recordRetry(ctx.method, ctx.url);
+      await hookRunner.onRetry(ctx, lastError);
+      await sleep(serverRetryMs ?? getRetryDelay(retryConfig, failures, retryAfterMs), signal);
+    }
 
-      const controller = createAbortController();
-      if (options.signal) {
-        options.signal.addEventListener('abort', () => controller.abort());
+    const finalError =
+      ctx.attempt <= 1 || lastError instanceof RetryBudgetExhaustedError
+        ? lastError
+        : new RetryExhaustedError(ctx.attempt, lastError);
+    await hookRunner.onError(ctx, finalError);
+    throw finalError;
+  }
+
+  /** Full URL with path params and query applied; a templated path doubles as the route */
+  private _resolveTarget(options: RequestOptions | StreamOptions): {
+    fullUrl: string;
+    route: string | undefined;
+  } {
+    const fullUrl = buildURL(this.config.baseURL, options.url, {
+      params: options.params,
+      pathParams: options.pathParams,
+      arrayFormat: options.arrayFormat ?? this.config.arrayFormat,
+    });
+    const template =
+      options.pathParams && !isAbsoluteURL(options.url)
+        ? `/${options.url.replace(/^\/+/, '').split('?')[0] ?? ''}`
+        : undefined;
+    return { fullUrl, route: options.route ?? template };
+  }
+
+  private _resolveRetryConfig(overrides: Partial<RetryConfig> | undefined): RetryConfig {
+    if (!overrides) return this.retryConfig;
+    return {
+      ...this.retryConfig,
+      ...overrides,
+      retryOn: overrides.retryOn ?? this.retryConfig.retryOn,
+    };
+  }
+
+  private async _executeWithRetry<T>(plan: ResolvedRequest): Promise<StrontiumResponse<T>> {
+    const { requestId, method, url, body, headers, timeoutMs, retryConfig, options } = plan;
+    const machine = new StateMachine();
+    const hookRunner = createHookRunner(this.hooks);
+    const ctx: HookContext = { method, url, attempt: 0, requestId };
+    const deadline = plan.deadlineMs !== undefined ? new Deadline(plan.deadlineMs) : null;
+
+    machine.transition('PENDING');
+    this.retryBudget.recordRequest();
+
+    let lastError: unknown;
+    const hasBody = body !== undefined && method !== 'GET' && method !== 'HEAD';
+    // Serialized once: a stream body can only be read by a single attempt. Idempotent requests
+    // send canonical JSON, so X-Payload-Hash is the hash of the bytes on the wire
+    const serialized = hasBody
+      ? serializeBody(body, plan.protocolMode === 'idempotent' ? canonicalJSON : undefined)
+      : null;
+    const replayable = serialized?.replayable ?? true;
+    const responseType = options.responseType ?? 'auto';
+    let revalidated = false;
+
+    // One key per logical request, so the server sees every retry as the same operation
+    let idempotency: {
+      key: string;
+      hash: string | null;
+      record: IdempotencyRecord | null;
+    } | null = null;
+    if (plan.protocolMode === 'idempotent') {
+      const key = options.idempotencyKey ?? generateIdempotencyKey();
+      const hash = isHashablePayload(body) ? await computePayloadHash(body) : null;
+      const record = hash !== null ? await this.idempotency.claim(key, hash) : null;
+      idempotency = { key, hash, record };
+    }
+
+    const replay = idempotency?.record?.response;
+    if (replay) {
+      machine.transition('SUCCESS');
+      const result: StrontiumResponse<T> = {
+        data: replay.data as T,
+        status: replay.status,
+        headers: { ...replay.headers },
+        requestId,
+        attempt: 0,
+        latencyMs: 0,
+        idempotentReplay: true,
+      };
+      await hookRunner.afterResponse(ctx, result as StrontiumResponse<unknown>);
+      return result;
+    }
+
+    for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+      ctx.attempt = attempt;
+
+      if (deadline?.expired()) {
+        const deadlineError = new DeadlineExceededError(deadline.deadlineMs, lastError);
+        machine.transition('ERROR');
+        await hookRunner.onError(ctx, deadlineError);
+        throw deadlineError;
       }
 
       const requestHeaders: Record<string, string> = {
-        'Content-Type': 'application/json',
         'X-Request-Id': requestId,
         ...this.config.headers,
         ...headers,
       };
+      // A caller's Content-Type wins in any casing; otherwise the body's own type is sent
+      if (serialized?.contentType && !hasHeader(requestHeaders, 'content-type')) {
+        requestHeaders['Content-Type'] = serialized.contentType;
+      }
+
+      if (idempotency) {
+        requestHeaders['Idempotency-Key'] = idempotency.key;
+        if (idempotency.hash !== null && body !== undefined) {
+          requestHeaders['X-Payload-Hash'] = idempotency.hash;
+        }
+      }
 
-      if (this.config.protocolMode === 'idempotent') {
-        const idemKey = options.idempotencyKey ?? generateIdempotencyKey();
-        requestHeaders['Idempotency-Key'] = idemKey;
-        if (body !== undefined) {
-          const hash = await enforceIntegrity(idemKey, body);
-          requestHeaders['X-Payload-Hash'] = hash;
+      const hasIdempotencyKey = Object.keys(requestHeaders).some(
+        (name) => name.toLowerCase() === 'idempotency-key',
+      );
+      let rateLimitWaitMs = 0;
+      if (this.rateLimiter) {
+        const reserved = this.rateLimiter.reserve(plan.rateLimitKey, deadline?.remaining());
+        const event = {
+          partition: plan.rateLimitKey,
+          waitMs: reserved ?? 0,
+          rejected: reserved === null,
+        };
+        if (reserved === null) {
+          const rateLimitError = new RateLimitedError(plan.rateLimitKey);
+          this.metrics.recordRateLimitRejection(plan.rateLimitKey);
+          await hookRunner.onRateLimited(ctx, event);
+          machine.transition('ERROR');
+          await hookRunner.onError(ctx, rateLimitError);
+          throw rateLimitError;
+        }
+        if (reserved > 0) {
+          await hookRunner.onRateLimited(ctx, event);
+          await sleep(reserved, options.signal);
+          rateLimitWaitMs = reserved;
         }
+        // Aborted while waiting for a token: never dispatch
+        if (options.signal?.aborted) {
+          machine.transition('CANCELLED');
+          await hookRunner.onCancel(ctx);
+          throw options.signal.reason;
+        }
+        this.metrics.recordRateLimitWait(plan.rateLimitKey, reserved);
       }
 
-      const hasBody = body !== undefined && method !== 'GET' && method !== 'HEAD';
+      let release: Release;
+      let queueWaitMs: number;
+      try {
+        ({ release, waitMs: queueWaitMs } = await this.bulkhead.acquire(plan.bulkheadKey, {
+          ...(options.priority !== undefined ? { priority: options.priority } : {}),
+          ...(deadline ? { timeoutMs: deadline.remaining() } : {}),
+          ...(options.signal ? { signal: options.signal } : {}),
+        }));
+        this.metrics.recordQueueWait(plan.bulkheadKey, queueWaitMs);
+      } catch (err) {
+        if (err instanceof BulkheadRejectedError) {
+          this.metrics.recordBulkheadRejection(err.partition, err.reason);
+        }
+        if (options.signal?.aborted) {
+          machine.transition('CANCELLED');
+          await hookRunner.onCancel(ctx);
+        } else {
+          machine.transition('ERROR');
+          await hookRunner.onError(ctx, err);
+        }
+        throw err;
+      }
+
+      if (!plan.bypassCircuitBreaker) {
+        await this.circuits.sync(plan.circuitKey);
+        try {
+          plan.circuitBreaker.check();
+        } catch (err) {
+          release();
+          await hookRunner.onCircuitOpen(ctx);
+          machine.transition('ERROR');
+          throw err;
+        }
+      }
+
+      await hookRunner.beforeRequest(ctx);
+
+      const controller = createAbortController();
+      if (options.signal) {
+        options.signal.addEventListener('abort', () => controller.abort());
+      }
+
+      // Measured after any queue wait so the slot wait does not eat into the attempt
+      const attemptTimeoutMs = deadline ? deadline.capTimeout(timeoutMs) : timeoutMs;
+      if (deadline) {
+        requestHeaders[DEADLINE_HEADER] = String(deadline.remaining());
+      }
 
       const span = startSpan(this.config.tracer, 'strontium.request');
       const startTime = Date.now();
-      this.inFlight++;
 
       let response: Response;
       let statusCode: number | null = null;
 
+      // Node's fetch refuses a stream body without half-duplex
+      const init = serialized && !serialized.replayable ? ({ duplex: 'half' } as RequestInit) : {};
+      const conditional = plan.cache?.entry ? this.cache.conditionalHeaders(plan.cache.entry) : {};
+      // Each send (including hedged duplicates) gets its own context for middleware to rewrite
+      const send = async (signal: AbortSignal): Promise<Response> => {
+        const sent = await this._dispatch(
+          {
+            requestId,
+            attempt,
+            method,
+            url,
+            headers: { ...conditional, ...requestHeaders },
+            body: serialized?.body,
+            signal,
+            options,
+          },
+          init,
+        );
+        if (!plan.cache) return sent;
+        const handled = await this.cache.handleResponse(
+          plan.cache.key,
+          plan.cache.entry,
+          sent,
+          requestHeaders,
+        );
+        if (handled.revalidated) revalidated = true;
+        return handled.response;
+      };
+
       try {
         response = await withTimeout(
-          this.config.transport(url, {
-            method,
-            headers: requestHeaders,
-            ...(hasBody ? { body: JSON.stringify(body) } : {}),
-            signal: controller.signal,
-          }),
-          timeoutMs,
+          plan.hedging ? this._sendHedged(plan, ctx, send, controller) : send(controller.signal),
+          attemptTimeoutMs,
           controller,
         );
 
         statusCode = response.status;
         const latencyMs = Date.now() - startTime;
-        this.inFlight--;
+        release();
 
         if (!response.ok) {
-          this.circuitBreaker.recordFailure();
-          lastError = new NetworkError(`HTTP ${statusCode}`);
+          this._recordCircuit(plan, { status: statusCode, durationMs: latencyMs });
+          this._recordLimit(plan, latencyMs, statusCode === 503 || statusCode === 429);
+          this.metrics.record({
+            requestId,
+            url,
+            method,
+            latencyMs,
+            attempt,
+            status: statusCode,
+            success: false,
+            outcome: 'http_error',
+            queueWaitMs,
+            rateLimitWaitMs,
+          });
+          lastError = new NetworkError(`HTTP ${statusCode}`, undefined, statusCode);
+          const retryAfterMs = retryConfig.respectRetryAfter
+            ? parseRetryAfter(response.headers)
+            : null;
           if (
-            shouldRetry(this.retryConfig, null, statusCode, attempt) &&
-            attempt < this.retryConfig.maxAttempts
+            shouldRetry(retryConfig, null, statusCode, attempt, {
+              method,
+              hasIdempotencyKey,
+              retryAfterMs,
+              replayable,
+            }) &&
+            attempt < retryConfig.maxAttempts
           ) {
-            machine.transition('RETRYING');
-            await hookRunner.onRetry(ctx, lastError);
-            await backoff(this.retryConfig, attempt);
-            machine.transition('PENDING');
+            await this._waitForRetry(
+              machine,
+              hookRunner,
+              ctx,
+              retryConfig,
+              deadline,
+              lastError,
+              retryAfterMs,
+            );
             continue;
           }
           break;
         }
 
-        let data: unknown;
-        const contentType = response.headers.get('content-type') ?? '';
-        if (contentType.includes('application/json')) {
-          data = await response.json();
-        } else {
-          data = await response.text();
-        }
-        if (schema && this.config.mode === 'strict') {
-          let validationError: ResponseValidationError | null = null;
+        let data = await parseResponseBody(
+          response,
+          responseType,
+          options.idleTimeoutMs,
+          controller,
+        );
+        // A stream is handed over unread, so there is nothing to validate yet
+        if (responseType !== 'stream') {
+          let validationError: unknown = null;
           try {
-            data = schema.parse(data);
+            data = validateResponse(plan, statusCode, data);
           } catch (err) {
-            validationError = new ResponseValidationError('Response validation failed', err);
+            validationError = err;
           }
           if (validationError) {
             machine.transition('ERROR');
@@ -225,7 +958,8 @@ export class StrontiumClient {
           }
         }
 
-        this.circuitBreaker.recordSuccess();
+        this._recordCircuit(plan, { status: statusCode, durationMs: latencyMs });
+        this._recordLimit(plan, latencyMs, false);
         machine.transition('SUCCESS');
 
         const result: StrontiumResponse<T> = {
@@ -235,6 +969,8 @@ export class StrontiumClient {
           requestId,
           attempt,
           latencyMs,
+          ...(ctx.hedged ? { hedged: true } : {}),
+          ...(revalidated ? { cache: 'revalidated' as const } : {}),
         };
 
         this.metrics.record({
@@ -245,21 +981,37 @@ export class StrontiumClient {
           attempt,
           status: statusCode,
           success: true,
+          outcome: 'success',
+          queueWaitMs,
+          rateLimitWaitMs,
         });
         endSpan(span, {
           'http.status': statusCode,
           'request.id': requestId,
           'retry.attempt': attempt,
         });
+        // Only decoded JSON or text survives being written to a store
+        if (
+          idempotency?.record &&
+          (responseType === 'auto' || responseType === 'json' || responseType === 'text')
+        ) {
+          await this.idempotency.saveResponse(idempotency.key, idempotency.record, {
+            status: statusCode,
+            headers: result.headers,
+            data,
+          });
+        }
         await hookRunner.afterResponse(ctx, result as StrontiumResponse<unknown>);
         return result;
       } catch (err) {
-        if (err instanceof ResponseValidationError) throw err;
-        this.inFlight--;
+        // Errors raised after the attempt already settled (validation, retry budget) pass through
+        if (machine.isTerminal()) throw err;
+        release();
         const latencyMs = Date.now() - startTime;
 
         if (err instanceof TimeoutError || (err instanceof Error && err.name === 'AbortError')) {
-          const timeoutError = err instanceof TimeoutError ? err : new TimeoutError(timeoutMs);
+          const timeoutError =
+            err instanceof TimeoutError ? err : new TimeoutError(attemptTimeoutMs);
           lastError = timeoutError;
 
           if (options.signal?.aborted) {
@@ -268,7 +1020,8 @@ export class StrontiumClient {
             throw timeoutError;
           }
 
-          this.circuitBreaker.recordFailure();
+          this._recordCircuit(plan, { status: null, error: timeoutError, durationMs: latencyMs });
+          this._recordLimit(plan, latencyMs, true);
           this.metrics.record({
             requestId,
             url,
@@ -277,15 +1030,27 @@ export class StrontiumClient {
             attempt,
             status: null,
             success: false,
+            outcome: 'timeout',
+            queueWaitMs,
+            rateLimitWaitMs,
           });
+          // The attempt was cut short by the overall deadline, not its own timeout
+          if (deadline && attemptTimeoutMs < timeoutMs) {
+            const deadlineError = new DeadlineExceededError(deadline.deadlineMs, timeoutError);
+            machine.transition('ERROR');
+            await hookRunner.onError(ctx, deadlineError);
+            throw deadlineError;
+          }
+
           if (
-            shouldRetry(this.retryConfig, timeoutError, null, attempt) &&
-            attempt < this.retryConfig.maxAttempts
+            shouldRetry(retryConfig, timeoutError, null, attempt, {
+              method,
+              hasIdempotencyKey,
+              replayable,
+            }) &&
+            attempt < retryConfig.maxAttempts
           ) {
-            machine.transition('RETRYING');
-            await hookRunner.onRetry(ctx, timeoutError);
-            await backoff(this.retryConfig, attempt);
-            machine.transition('PENDING');
+            await this._waitForRetry(machine, hookRunner, ctx, retryConfig, deadline, timeoutError);
             continue;
           }
 
@@ -297,7 +1062,7 @@ export class StrontiumClient {
           const isNetworkErr = err instanceof TypeError;
           lastError = err;
 
-          this.circuitBreaker.recordFailure();
+          this._recordCircuit(plan, { status: statusCode, error: err, durationMs: latencyMs });
           this.metrics.record({
             requestId,
             url,
@@ -306,16 +1071,20 @@ export class StrontiumClient {
             attempt,
             status: statusCode,
             success: false,
+            outcome: 'network_error',
+            queueWaitMs,
+            rateLimitWaitMs,
           });
           if (
             isNetworkErr &&
-            shouldRetry(this.retryConfig, err, null, attempt) &&
-            attempt < this.retryConfig.maxAttempts
+            shouldRetry(retryConfig, err, null, attempt, {
+              method,
+              hasIdempotencyKey,
+              replayable,
+            }) &&
+            attempt < retryConfig.maxAttempts
           ) {
-            machine.transition('RETRYING');
-            await hookRunner.onRetry(ctx, err);
-            await backoff(this.retryConfig, attempt);
-            machine.transition('PENDING');
+            await this._waitForRetry(machine, hookRunner, ctx, retryConfig, deadline, err);
             continue;
           }
 
@@ -329,17 +1098,176 @@ export class StrontiumClient {
     }
 
     machine.transition('ERROR');
-    if (this.retryConfig.maxAttempts <= 1) {
+    // ctx.attempt is the last attempt made; a request that was never retried keeps its own error
+    if (ctx.attempt <= 1) {
       throw lastError ?? new NetworkError('Request failed');
     }
-    throw new RetryExhaustedError(this.retryConfig.maxAttempts, lastError);
+    throw new RetryExhaustedError(ctx.attempt, lastError);
+  }
+
+  // Runs the middleware chain, ending in the transport
+  private _dispatch(ctx: MiddlewareContext, init: RequestInit): Promise<Response> {
+    const chain = this.middleware.map((entry) => entry.middleware);
+    const run = async (index: number, current: MiddlewareContext): Promise<Response> => {
+      if (index === chain.length) {
+        const done = this.metrics.trackInFlight(current.url);
+        try {
+          return await this.config.transport(current.url, {
+            ...init,
+            method: current.method,
+            headers: current.headers,
+            ...(current.body !== undefined ? { body: current.body } : {}),
+            signal: current.signal,
+          });
+        } finally {
+          done();
+        }
+      }
+      return chain[index](current, (next = current) => run(index + 1, next));
+    };
+    return run(0, ctx);
+  }
+
+  private _recordCircuit(plan: ResolvedRequest, outcome: CircuitOutcome): void {
+    if (!plan.bypassCircuitBreaker) plan.circuitBreaker.recordOutcome(outcome);
+  }
+
+  private _recordLimit(plan: ResolvedRequest, latencyMs: number, dropped: boolean): void {
+    if (!this.adaptiveLimiter) return;
+    this.adaptiveLimiter.onSample({
+      partition: plan.circuitKey,
+      latencyMs,
+      dropped,
+      inFlight: this.bulkhead.getActive(),
+    });
+    this._applyAdaptiveLimit();
+  }
+
+  // The adaptive limit moves beneath the configured bulkhead cap, never above it
+  private _applyAdaptiveLimit(): void {
+    if (!this.adaptiveLimiter) return;
+    const cap = this.config.bulkhead.maxConcurrent ?? DEFAULT_BULKHEAD_CONFIG.maxConcurrent;
+    this.bulkhead.setLimit(Math.min(this.adaptiveLimiter.getLimit(), cap));
+  }
+
+  // Races the original attempt against delayed duplicates; only the winner's outcome reaches the caller
+  private async _sendHedged(
+    plan: ResolvedRequest,
+    ctx: HookContext,
+    send: (signal: AbortSignal) => Promise<Response>,
+    controller: AbortController,
+  ): Promise<Response> {
+    const { percentile, delayMs, maxHedges } = this.hedgingConfig;
+    const startTime = Date.now();
+    const result = await hedge(send, {
+      delayMs:
+        percentile !== undefined
+          ? (this.metrics.percentileLatency(percentile) ?? delayMs)
+          : delayMs,
+      maxHedges,
+      signal: controller.signal,
+      // Duplicates are extra load, so never add them to a breaker that is probing or open
+      canHedge: () => plan.bypassCircuitBreaker || plan.circuitBreaker.getState() === 'CLOSED',
+      // A duplicate that failed while a sibling was still running is its own attempt
+      onLoserError: (error) => {
+        const latencyMs = Date.now() - startTime;
+        this._recordCircuit(plan, { status: null, error, durationMs: latencyMs });
+        this.metrics.record({
+          requestId: plan.requestId,
+          url: plan.url,
+          method: plan.method,
+          latencyMs,
+          attempt: ctx.attempt,
+          status: null,
+          success: false,
+          outcome: error instanceof TimeoutError ? 'timeout' : 'network_error',
+        });
+      },
+    });
+    ctx.hedged = result.hedged;
+    return result.value;
+  }
+
+  // Sleeps out the backoff before the next attempt, or fails when the wait cannot fit the budget
+  private async _waitForRetry(
+    machine: StateMachine,
+    hookRunner: HookRunner,
+    ctx: HookContext,
+    retryConfig: RetryConfig,
+    deadline: Deadline | null,
+    error: unknown,
+    retryAfterMs: number | null = null,
+  ): Promise<void> {
+    const budgetMs = deadline
+      ? Math.min(retryConfig.maxDelayMs, deadline.remaining())
+      : retryConfig.maxDelayMs;
+
+    let budgetError: Error | null = null;
+    const delay = getRetryDelay(retryConfig, ctx.attempt, retryAfterMs);
+    if (retryConfig.failOnExcessiveRetryAfter && retryAfterMs !== null && retryAfterMs > budgetMs) {
+      budgetError = new RetryAfterExceededError(retryAfterMs, budgetMs);
+    } else if (deadline && delay >= deadline.remaining()) {
+      budgetError = new DeadlineExceededError(deadline.deadlineMs, error);
+    } else if (!this.retryBudget.tryAcquire()) {
+      budgetError = new RetryBudgetExhaustedError(error);
+    }
+    if (budgetError) {
+      machine.transition('ERROR');
+      await hookRunner.onError(ctx, budgetError);
+      throw budgetError;
+    }
+
+    machine.transition('RETRYING');
+    this.metrics.recordRetry(ctx.method, ctx.url);
+    await hookRunner.onRetry(ctx, error);
+    await sleep(delay);
+    machine.transition('PENDING');
+  }
+
+  /** Rejects every request in the partition (or all partitions) until forceClosed() or reset() */
+  forceOpen(partition?: string): void {
+    if (partition !== undefined) this.circuits.get(partition).forceOpen();
+    else this.circuits.forceOpen();
+  }
+
+  /** Lets every request through the partition (or all partitions) regardless of failures */
+  forceClosed(partition?: string): void {
+    if (partition !== undefined) this.circuits.get(partition).forceClosed();
+    else this.circuits.forceClosed();
+  }
+
+  /** Clears any manual override and failure history, returning the breaker to CLOSED */
+  reset(partition?: string): void {
+    if (partition !== undefined) this.circuits.get(partition).reset();
+    else this.circuits.reset();
+  }
+
+  /** Client metrics in the OpenMetrics text format, for a `/metrics` endpoint */
+  metricsText(): string {
+    return this.metrics.toOpenMetrics();
   }
 
   health(): HealthStatus {
+    const circuits: HealthStatus['circuits'] = {};
+    let circuitState: CircuitState = 'CLOSED';
+    let recentFailures = 0;
+    for (const [key, breaker] of this.circuits.entries()) {
+      const state = breaker.getState();
+      const failures = breaker.getFailures();
+      circuits[key] = { state, failures, forced: breaker.isForced() };
+      recentFailures += failures;
+      if (CIRCUIT_SEVERITY[state] > CIRCUIT_SEVERITY[circuitState]) circuitState = state;
+    }
+
     return {
-      circuitState: this.circuitBreaker.getState(),
-      recentFailures: this.circuitBreaker.getFailures(),
+      circuitState,
+      recentFailures,
+      circuits,
       averageLatency: this.metrics.averageLatency(),
+      retryBudget: this.retryBudget.getState(),
+      bulkhead: this.bulkhead.getState(),
+      adaptiveConcurrency: this.adaptiveLimiter?.getState() ?? null,
+      fallbacks: this.metrics.fallbackCounts(),
     };
   }
 }
@@ -0,0 +1,124 @@
+import type {
+  AdaptiveConcurrencyConfig,
+  AdaptiveConcurrencyState,
+  AdaptiveLimitChange,
+} from '../core/types.js';
+
+export const DEFAULT_ADAPTIVE_CONCURRENCY_CONFIG: AdaptiveConcurrencyConfig = {
+  enabled: false,
+  initialLimit: 20,
+  minLimit: 1,
+  maxLimit: 200,
+  additiveIncrease: 1,
+  backoffRatio: 0.9,
+  latencyTolerance: 2,
+  baselineWindowMs: 30_000,
+};
+
+const MAX_HISTORY = 50;
+const MAX_PARTITIONS = 1_000;
+
+export interface LimitSample {
+  /** Upstream the sample came from; each keeps its own latency baseline */
+  partition?: string;
+  latencyMs: number;
+  /** The upstream signalled overload (timeout, 503, 429) */
+  dropped: boolean;
+  /** Requests in flight when the sample was taken */
+  inFlight: number;
+}
+
+// Minimum latency of the last full window and of the one in progress
+interface Baseline {
+  previousMinMs: number;
+  currentMinMs: number;
+  windowStart: number;
+}
+
+/**
+ * AIMD limiter: grows the limit additively while latency stays near its no-load baseline,
+ * and cuts it multiplicatively on overload signals or when latency inflates past
+ * `latencyTolerance` × baseline. The baseline is the minimum latency per partition over a
+ * rolling `baselineWindowMs`, so it follows a lasting shift instead of freezing below it.
+ */
+export class AdaptiveLimiter {
+  private limit: number;
+  private baselines = new Map<string, Baseline>();
+  private history: AdaptiveLimitChange[] = [];
+  private readonly config: AdaptiveConcurrencyConfig;
+
+  constructor(config: Partial<AdaptiveConcurrencyConfig> = {}) {
+    this.config = { ...DEFAULT_ADAPTIVE_CONCURRENCY_CONFIG, ...config };
+    this.limit = this.config.initialLimit;
+  }
+
+  getLimit(): number {
+    return Math.floor(this.limit);
+  }
+
+  onSample(sample: LimitSample, now = Date.now()): void {
+    if (sample.dropped) {
+      this.setLimit(this.limit * this.config.backoffRatio, 'overload', now);
+      return;
+    }
+
+    const baselineMs = this.baselineFor(sample.partition ?? '');
+    this.observe(sample.partition ?? '', sample.latencyMs, now);
+    if (baselineMs !== undefined && sample.latencyMs > baselineMs * this.config.latencyTolerance) {
+      this.setLimit(this.limit * this.config.backoffRatio, 'latency', now);
+      return;
+    }
+
+    // Only grow when the current limit is actually being used
+    if (sample.inFlight * 2 >= this.getLimit()) {
+      this.setLimit(this.limit + this.config.additiveIncrease / this.getLimit(), 'increase', now);
+    }
+  }
+
+  getState(): AdaptiveConcurrencyState {
+    return {
+      limit: this.getLimit(),
+      minLimit: this.config.minLimit,
+      maxLimit: this.config.maxLimit,
+      baselineLatencyMs: Object.fromEntries(
+        [...this.baselines.keys()].map((partition) => [
+          partition,
+          this.baselineFor(partition) ?? 0,
+        ]),
+      ),
+      history: [...this.history],
+    };
+  }
+
+  private baselineFor(partition: string): number | undefined {
+    const baseline = this.baselines.get(partition);
+    return baseline && Math.min(baseline.previousMinMs, baseline.currentMinMs);
+  }
+
+  private observe(partition: string, latencyMs: number, now: number): void {
+    let baseline = this.baselines.get(partition);
+    if (!baseline) {
+      baseline = { previousMinMs: Infinity, currentMinMs: Infinity, windowStart: now };
+      this.baselines.set(partition, baseline);
+      if (this.baselines.size > MAX_PARTITIONS) {
+        const oldest = this.baselines.keys().next().value;
+        if (oldest !== undefined) this.baselines.delete(oldest);
+      }
+    }
+    if (now - baseline.windowStart >= this.config.baselineWindowMs) {
+      baseline.previousMinMs = baseline.currentMinMs;
+      baseline.currentMinMs = Infinity;
+      baseline.windowStart = now;
+    }
+    baseline.currentMinMs = Math.min(baseline.currentMinMs, latencyMs);
+  }
+
+  private setLimit(next: number, reason: AdaptiveLimitChange['reason'], now: number): void {
+    const previous = this.getLimit();
+    this.limit = Math.min(this.config.maxLimit, Math.max(this.config.minLimit, next));
+    if (this.getLimit() !== previous) {
+      this.history.push({ at: now, limit: this.getLimit(), reason });
+      if (this.history.length > MAX_HISTORY) this.history.shift();
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { BulkheadRejectedError } from '../core/errors.js';
+import type { BulkheadConfig, BulkheadState } from '../core/types.js';
+
+export const DEFAULT_BULKHEAD_CONFIG: BulkheadConfig = {
+  maxConcurrent: 100,
+  maxQueue: 100,
+  queueTimeoutMs: 1000,
+  queueOrder: 'fifo',
+  partitionBy: 'host',
+};
+
+interface Waiter {
+  partition: string;
+  priority: number;
+  seq: number;
+  enqueuedAt: number;
+  grant: () => void;
+  reject: (err: unknown) => void;
+}
+
+export type Release = () => void;
+
+export class Bulkhead {
+  private active = 0;
+  private readonly activeByPartition = new Map<string, number>();
+  private queue: Waiter[] = [];
+  private seq = 0;
+  private rejected = 0;
+  private granted = 0;
+  private totalWaitMs = 0;
+  private maxConcurrent: number;
+  private readonly config: BulkheadConfig;
+
+  constructor(
+    config: Partial<BulkheadConfig> = {},
+    private readonly onQueueChange?: (partition: string, queued: number) => void,
+  ) {
+    this.config = { ...DEFAULT_BULKHEAD_CONFIG, ...config };
+    this.maxConcurrent = this.config.maxConcurrent;
+  }
+
+  // Lets an adaptive limiter move the cap; in-flight requests above a lowered cap finish normally
+  setLimit(maxConcurrent: number): void {
+    this.maxConcurrent = maxConcurrent;
+    this.drain();
+  }
+
+  /**
+   * Resolves with a release function once a slot is free in the bulkhead and the partition.
+   * Rejects with BulkheadRejectedError when the queue is full, the wait exceeds
+   * `queueTimeoutMs` (or `timeoutMs` if smaller), or `signal` aborts while queued.
+   */
+  acquire(
+    partition: string,
+    options: { priority?: number; timeoutMs?: number; signal?: AbortSignal } = {},
+  ): Promise<{ release: Release; waitMs: number }> {
+    // Queued waiters are all blocked on their own partition whenever a slot is free, so only
+    // one for this partition takes precedence
+    if (
+      this.hasCapacity(partition) &&
+      !this.queue.some((waiter) => waiter.partition === partition)
+    ) {
+      return Promise.resolve({ release: this.take(partition), waitMs: 0 });
+    }
+    // An abort that already happened will never fire its listener
+    if (options.signal?.aborted) {
+      this.rejected++;
+      return Promise.reject(new BulkheadRejectedError('cancelled', partition));
+    }
+    if (this.queue.length >= this.config.maxQueue) {
+      this.rejected++;
+      return Promise.reject(new BulkheadRejectedError('queue_full', partition));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutMs = Math.min(this.config.queueTimeoutMs, options.timeoutMs ?? Infinity);
+      const waiter: Waiter = {
+        partition,
+        priority: this.config.queueOrder === 'priority' ? (options.priority ?? 0) : 0,
+        seq: this.seq++,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          cleanup();
+          const waitMs = Date.now() - waiter.enqueuedAt;
+          this.granted++;
+          this.totalWaitMs += waitMs;
+          resolve({ release: this.take(partition), waitMs });
+        },
+        reject: (err) => {
+          cleanup();
+          this.rejected++;
+          reject(err);
+        },
+      };
+      const onAbort = () => {
+        this.remove(waiter);
+        waiter.reject(new BulkheadRejectedError('cancelled', partition));
+      };
+      const timer = setTimeout(() => {
+        this.remove(waiter);
+        waiter.reject(new BulkheadRejectedError('queue_timeout', partition));
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+
+      options.signal?.addEventListener('abort', onAbort);
+      this.insert(waiter);
+    });
+  }
+
+  getActive(): number {
+    return this.active;
+  }
+
+  getState(): BulkheadState {
+    const partitions: BulkheadState['partitions'] = {};
+    for (const [key, active] of this.activeByPartition) {
+      partitions[key] = { active, queued: 0 };
+    }
+    for (const waiter of this.queue) {
+      const entry = (partitions[waiter.partition] ??= { active: 0, queued: 0 });
+      entry.queued++;
+    }
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.maxConcurrent,
+      rejected: this.rejected,
+      averageQueueWaitMs: this.granted === 0 ? 0 : this.totalWaitMs / this.granted,
+      partitions,
+    };
+  }
+
+  private hasCapacity(partition: string): boolean {
+    if (this.active >= this.maxConcurrent) return false;
+    const { maxConcurrentPerPartition } = this.config;
+    return (
+      maxConcurrentPerPartition === undefined ||
+      (this.activeByPartition.get(partition) ?? 0) < maxConcurrentPerPartition
+    );
+  }
+
+  private take(partition: string): Release {
+    this.active++;
+    this.activeByPartition.set(partition, (this.activeByPartition.get(partition) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      const remaining = (this.activeByPartition.get(partition) ?? 1) - 1;
+      if (remaining === 0) this.activeByPartition.delete(partition);
+      else this.activeByPartition.set(partition, remaining);
+      this.drain();
+    };
+  }
+
+  // Grants queued waiters in order, skipping those whose partition is still saturated
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.active < this.maxConcurrent; ) {
+      const waiter = this.queue[i];
+      if (waiter && this.hasCapacity(waiter.partition)) {
+        this.queue.splice(i, 1);
+        this.notify(waiter.partition);
+        waiter.grant();
+      } else {
+        i++;
+      }
+    }
+  }
+
+  // Higher priority first, FIFO within a priority
+  private insert(waiter: Waiter): void {
+    const index = this.queue.findIndex((w) => w.priority < waiter.priority);
+    if (index === -1) this.queue.push(waiter);
+    else this.queue.splice(index, 0, waiter);
+    this.notify(waiter.partition);
+  }
+
+  private remove(waiter: Waiter): void {
+    const index = this.queue.indexOf(waiter);
+    if (index === -1) return;
+    this.queue.splice(index, 1);
+    this.notify(waiter.partition);
+  }
+
+  private notify(partition: string): void {
+    if (!this.onQueueChange) return;
+    const queued = this.queue.filter((waiter) => waiter.partition === partition).length;
+    this.onQueueChange(partition, queued);
+  }
+}
@@ -1,17 +1,49 @@
 import { CircuitOpenError } from '../core/errors.js';
-import type { CircuitBreakerConfig, CircuitState } from '../core/types.js';
+import type {
+  CircuitBreakerConfig,
+  CircuitOutcome,
+  CircuitSnapshot,
+  CircuitState,
+  CircuitTransition,
+  CircuitTransitionReason,
+} from '../core/types.js';
+
+// Network errors, timeouts, throttling and server errors signal an unhealthy upstream; other 4xx do not
+export function defaultIsFailure({ status, error }: CircuitOutcome): boolean {
+  if (status === null || error !== undefined) return true;
+  return status >= 500 || status === 429;
+}
 
 export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
   failureThreshold: 5,
   resetTimeoutMs: 60000,
   halfOpenMaxCalls: 1,
+  windowType: 'consecutive',
+  windowSize: 100,
+  minimumRequests: 10,
+  failureRateThreshold: 0.5,
+  isFailure: defaultIsFailure,
+  partitionBy: 'host',
+  maxPartitions: 1000,
+  syncIntervalMs: 1000,
+  maxClockSkewMs: 5000,
 };
 
+interface WindowEntry {
+  at: number;
+  failed: boolean;
+}
+
 export class CircuitBreaker {
   private state: CircuitState = 'CLOSED';
   private failures = 0;
   private halfOpenCalls = 0;
   private lastOpenedAt = 0;
+  private updatedAt = 0;
+  private window: WindowEntry[] = [];
+  // Manual override set by forceOpen()/forceClosed(); outcomes are ignored while set
+  private forced: CircuitState | null = null;
+  private readonly listeners = new Set<(transition: CircuitTransition) => void>();
   private readonly config: CircuitBreakerConfig;
 
   constructor(config: Partial<CircuitBreakerConfig> = {}) {
@@ -23,14 +55,69 @@ export class CircuitBreaker {
   }
 
   getFailures(): number {
-    return this.failures;
+    if (this.config.windowType === 'consecutive') return this.failures;
+    this.pruneWindow(Date.now());
+    return this.window.filter((e) => e.failed).length;
+  }
+
+  isForced(): boolean {
+    return this.forced !== null;
+  }
+
+  onStateChange(listener: (transition: CircuitTransition) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  forceOpen(): void {
+    this.forced = 'OPEN';
+    this.lastOpenedAt = Date.now();
+    this.transitionTo('OPEN', 'forced_open');
+  }
+
+  forceClosed(): void {
+    this.forced = 'CLOSED';
+    this.transitionTo('CLOSED', 'forced_closed');
+  }
+
+  reset(): void {
+    this.forced = null;
+    this.transitionTo('CLOSED', 'reset');
+    this.failures = 0;
+    this.halfOpenCalls = 0;
+    this.window = [];
+  }
+
+  toSnapshot(): Omit<CircuitSnapshot, 'version'> {
+    return {
+      state: this.state,
+      failures: this.getFailures(),
+      lastOpenedAt: this.lastOpenedAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Adopts state learned from another process. A remote HALF_OPEN is taken as OPEN so
+   * only the process that owns the probe sends it. Ignored while a manual override is held.
+   */
+  applySnapshot(snapshot: Omit<CircuitSnapshot, 'version'>, now = Date.now()): void {
+    if (this.forced) return;
+    this.failures = snapshot.failures;
+    this.lastOpenedAt = Math.min(snapshot.lastOpenedAt, now);
+    if (snapshot.state === 'CLOSED') this.window = [];
+    this.transitionTo(snapshot.state === 'CLOSED' ? 'CLOSED' : 'OPEN', 'remote_sync');
+    this.updatedAt = snapshot.updatedAt;
   }
 
   check(): void {
+    if (this.forced === 'OPEN') throw new CircuitOpenError();
+    if (this.forced === 'CLOSED') return;
+
     if (this.state === 'OPEN') {
       const elapsed = Date.now() - this.lastOpenedAt;
       if (elapsed >= this.config.resetTimeoutMs) {
-        this.state = 'HALF_OPEN';
+        this.transitionTo('HALF_OPEN', 'reset_timeout');
         this.halfOpenCalls = 0;
       } else {
         throw new CircuitOpenError();
@@ -45,23 +132,87 @@ export class CircuitBreaker {
     }
   }
 
+  // Classifies a finished call with the failure predicate and slow-call threshold
+  recordOutcome(outcome: CircuitOutcome): void {
+    if (this.forced) return;
+    const { slowCallDurationMs } = this.config;
+    const slow = slowCallDurationMs !== undefined && outcome.durationMs >= slowCallDurationMs;
+    if (slow || this.config.isFailure(outcome)) {
+      this.recordFailure();
+    } else {
+      this.recordSuccess();
+    }
+  }
+
   recordSuccess(): void {
+    if (this.forced) return;
     if (this.state === 'HALF_OPEN') {
-      this.state = 'CLOSED';
       this.failures = 0;
+      this.transitionTo('CLOSED', 'probe_succeeded');
+      this.window = [];
     } else if (this.state === 'CLOSED') {
       this.failures = 0;
+      this.pushWindow(false);
     }
   }
 
   recordFailure(): void {
+    if (this.forced) return;
     this.failures++;
     if (this.state === 'HALF_OPEN') {
-      this.state = 'OPEN';
-      this.lastOpenedAt = Date.now();
-    } else if (this.failures >= this.config.failureThreshold) {
-      this.state = 'OPEN';
-      this.lastOpenedAt = Date.now();
+      this.open('probe_failed');
+    } else if (this.config.windowType === 'consecutive') {
+      if (this.failures >= this.config.failureThreshold) this.open('failure_threshold');
+    } else {
+      this.pushWindow(true);
+      if (this.state === 'CLOSED' && this.windowTripped()) this.open('failure_rate');
+    }
+  }
+
+  private open(reason: CircuitTransitionReason): void {
+    this.lastOpenedAt = Date.now();
+    this.transitionTo('OPEN', reason);
+    this.window = [];
+  }
+
+  // Emits before window state is cleared so listeners see the counts that caused the change
+  private transitionTo(to: CircuitState, reason: CircuitTransitionReason): void {
+    const from = this.state;
+    if (from === to) return;
+    this.state = to;
+    this.updatedAt = Date.now();
+    const transition: CircuitTransition = { from, to, reason, failures: this.getFailures() };
+    for (const listener of this.listeners) {
+      try {
+        listener(transition);
+      } catch {
+        // listeners must never break the breaker
+      }
     }
   }
+
+  private pushWindow(failed: boolean): void {
+    if (this.config.windowType === 'consecutive') return;
+    const now = Date.now();
+    this.window.push({ at: now, failed });
+    this.pruneWindow(now);
+  }
+
+  private pruneWindow(now: number): void {
+    if (this.config.windowType === 'count') {
+      if (this.window.length > this.config.windowSize) {
+        this.window.splice(0, this.window.length - this.config.windowSize);
+      }
+    } else if (this.config.windowType === 'time') {
+      const cutoff = now - this.config.windowSize;
+      const firstLive = this.window.findIndex((e) => e.at > cutoff);
+      this.window.splice(0, firstLive === -1 ? this.window.length : firstLive);
+    }
+  }
+
+  private windowTripped(): boolean {
+    if (this.window.length < this.config.minimumRequests) return false;
+    const failed = this.window.filter((e) => e.failed).length;
+    return failed / this.window.length >= this.config.failureRateThreshold;
+  }
 }
@@ -0,0 +1,93 @@
+import type { CircuitBreakerConfig, CircuitStateChangeEvent } from '../core/types.js';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './circuitBreaker.js';
+import { CircuitStoreSync } from './circuitStore.js';
+
+/**
+ * Lazily creates one breaker per partition key. When full, the least recently used
+ * CLOSED breaker is evicted first so tripped or forced partitions keep their state.
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private syncs = new Map<string, CircuitStoreSync>();
+  // Client-wide override, also applied to partitions created after it was set
+  private forced: 'OPEN' | 'CLOSED' | null = null;
+
+  constructor(
+    private readonly config: Partial<CircuitBreakerConfig> = {},
+    private readonly maxPartitions = 1000,
+    private readonly onStateChange?: (event: CircuitStateChangeEvent) => void,
+  ) {}
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (breaker) {
+      // Re-insert to mark as most recently used
+      this.breakers.delete(key);
+    } else {
+      breaker = new CircuitBreaker(this.config);
+      const { onStateChange } = this;
+      if (onStateChange) {
+        breaker.onStateChange((transition) => onStateChange({ ...transition, partition: key }));
+      }
+      if (this.config.store) {
+        this.syncs.set(
+          key,
+          new CircuitStoreSync(breaker, this.config.store, key, {
+            syncIntervalMs:
+              this.config.syncIntervalMs ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.syncIntervalMs,
+            maxClockSkewMs:
+              this.config.maxClockSkewMs ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.maxClockSkewMs,
+          }),
+        );
+      }
+      if (this.forced === 'OPEN') breaker.forceOpen();
+      else if (this.forced === 'CLOSED') breaker.forceClosed();
+      if (this.breakers.size >= this.maxPartitions) this.evict();
+    }
+    this.breakers.set(key, breaker);
+    return breaker;
+  }
+
+  // Pulls shared state for the partition when a store is configured; never throws
+  async sync(key: string): Promise<void> {
+    await this.syncs.get(key)?.pull();
+  }
+
+  forceOpen(): void {
+    this.forced = 'OPEN';
+    this.breakers.forEach((breaker) => breaker.forceOpen());
+  }
+
+  forceClosed(): void {
+    this.forced = 'CLOSED';
+    this.breakers.forEach((breaker) => breaker.forceClosed());
+  }
+
+  reset(): void {
+    this.forced = null;
+    this.breakers.forEach((breaker) => breaker.reset());
+  }
+
+  entries(): Array<[string, CircuitBreaker]> {
+    return Array.from(this.breakers.entries());
+  }
+
+  size(): number {
+    return this.breakers.size;
+  }
+
+  private evict(): void {
+    let victim: string | undefined;
+    for (const [key, breaker] of this.breakers) {
+      if (breaker.getState() === 'CLOSED' && !breaker.isForced()) {
+        victim = key;
+        break;
+      }
+    }
+    victim ??= this.breakers.keys().next().value;
+    if (victim !== undefined) {
+      this.breakers.delete(victim);
+      this.syncs.delete(victim);
+    }
+  }
+}
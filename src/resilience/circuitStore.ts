@@ -0,0 +1,104 @@
+import { readJSONFile, withFileLock, writeJSONFile } from '../core/fileStore.js';
+import type { CircuitSnapshot, CircuitStateStore } from '../core/types.js';
+import type { CircuitBreaker } from './circuitBreaker.js';
+
+export class InMemoryCircuitStateStore implements CircuitStateStore {
+  private snapshots = new Map<string, CircuitSnapshot>();
+
+  get(key: string): Promise<CircuitSnapshot | undefined> {
+    return Promise.resolve(this.snapshots.get(key));
+  }
+
+  compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    next: CircuitSnapshot,
+  ): Promise<boolean> {
+    const current = this.snapshots.get(key);
+    if ((current?.version ?? null) !== expectedVersion) return Promise.resolve(false);
+    this.snapshots.set(key, next);
+    return Promise.resolve(true);
+  }
+}
+
+/**
+ * Keeps every partition in one JSON file, replaced atomically via rename. Meant for tests
+ * and single-host deployments; compare-and-set holds an exclusive `<path>.lock` file.
+ */
+export class FileCircuitStateStore implements CircuitStateStore {
+  constructor(private readonly path: string) {}
+
+  async get(key: string): Promise<CircuitSnapshot | undefined> {
+    const snapshots = await readJSONFile<CircuitSnapshot>(this.path);
+    return snapshots[key];
+  }
+
+  compareAndSet(
+    key: string,
+    expectedVersion: number | null,
+    next: CircuitSnapshot,
+  ): Promise<boolean> {
+    return withFileLock(this.path, async () => {
+      const snapshots = await readJSONFile<CircuitSnapshot>(this.path);
+      if ((snapshots[key]?.version ?? null) !== expectedVersion) return false;
+      snapshots[key] = next;
+      await writeJSONFile(this.path, snapshots);
+      return true;
+    });
+  }
+}
+
+export interface CircuitStoreSyncOptions {
+  syncIntervalMs: number;
+  maxClockSkewMs: number;
+}
+
+/**
+ * Mirrors one breaker to a shared store: local transitions are pushed with compare-and-set,
+ * and remote changes are pulled at most every `syncIntervalMs`. Store failures and skewed
+ * clocks are swallowed so the breaker falls back to local-only behavior.
+ */
+export class CircuitStoreSync {
+  private version: number | null = null;
+  private lastPulledAt = 0;
+
+  constructor(
+    private readonly breaker: CircuitBreaker,
+    private readonly store: CircuitStateStore,
+    private readonly key: string,
+    private readonly options: CircuitStoreSyncOptions,
+  ) {
+    breaker.onStateChange((transition) => {
+      if (transition.reason !== 'remote_sync') void this.push();
+    });
+  }
+
+  async pull(now = Date.now()): Promise<void> {
+    if (now - this.lastPulledAt < this.options.syncIntervalMs) return;
+    this.lastPulledAt = now;
+    try {
+      const remote = await this.store.get(this.key);
+      if (!remote) return;
+      this.version = remote.version;
+      if (remote.updatedAt > now + this.options.maxClockSkewMs) return;
+      if (remote.updatedAt <= this.breaker.toSnapshot().updatedAt) return;
+      this.breaker.applySnapshot(remote, now);
+    } catch {
+      // the shared store is an optimization; never fail a request over it
+    }
+  }
+
+  private async push(): Promise<void> {
+    const next = { ...this.breaker.toSnapshot(), version: (this.version ?? 0) + 1 };
+    try {
+      if (await this.store.compareAndSet(this.key, this.version, next)) {
+        this.version = next.version;
+      } else {
+        // Someone else wrote first; re-read on the next request
+        this.lastPulledAt = 0;
+      }
+    } catch {
+      // local state stays authoritative when the store is unavailable
+    }
+  }
+}
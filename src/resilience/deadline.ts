@@ -0,0 +1,25 @@
+export const DEADLINE_HEADER = 'X-Request-Deadline';
+
+export class Deadline {
+  private readonly expiresAt: number;
+
+  constructor(
+    public readonly deadlineMs: number,
+    now = Date.now(),
+  ) {
+    this.expiresAt = now + deadlineMs;
+  }
+
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  expired(): boolean {
+    return this.remaining() <= 0;
+  }
+
+  // Per-attempt timeout shrunk to whatever budget is left
+  capTimeout(timeoutMs: number): number {
+    return Math.min(timeoutMs, this.remaining());
+  }
+}
@@ -0,0 +1,39 @@
+import { CircuitOpenError, RetryExhaustedError } from '../core/errors.js';
+import type { FallbackValue, HookContext, StrontiumResponse } from '../core/types.js';
+
+/** Failures a fallback may replace; anything else (4xx, validation, aborts) still throws */
+export function isFallbackEligible(error: unknown): boolean {
+  return error instanceof CircuitOpenError || error instanceof RetryExhaustedError;
+}
+
+export async function resolveFallbackValue<T>(
+  value: FallbackValue<T>,
+  error: unknown,
+  ctx: HookContext,
+): Promise<T> {
+  if (typeof value === 'function') {
+    return (value as (error: unknown, ctx: HookContext) => T | Promise<T>)(error, ctx);
+  }
+  return value;
+}
+
+/** Last successful response per method + URL, bounded as an LRU */
+export class LastKnownGood {
+  private entries = new Map<string, StrontiumResponse<unknown>>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  record(key: string, response: StrontiumResponse<unknown>): void {
+    this.entries.delete(key);
+    this.entries.set(key, response);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  get(key: string): StrontiumResponse<unknown> | undefined {
+    return this.entries.get(key);
+  }
+}
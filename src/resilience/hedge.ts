@@ -0,0 +1,82 @@
+import type { HedgingConfig } from '../core/types.js';
+
+export const DEFAULT_HEDGING_CONFIG: HedgingConfig = {
+  enabled: false,
+  delayMs: 100,
+  maxHedges: 1,
+};
+
+export interface HedgeOptions {
+  delayMs: number;
+  maxHedges: number;
+  /** Aborting this aborts every attempt in the race */
+  signal: AbortSignal;
+  /** Consulted before each duplicate fires; returning false suppresses it */
+  canHedge?: () => boolean;
+  /** An attempt failed on its own while a sibling was still in flight */
+  onLoserError?: (error: unknown) => void;
+}
+
+export interface HedgeResult<T> {
+  value: T;
+  /** The winning value came from a duplicate rather than the original attempt */
+  hedged: boolean;
+}
+
+/**
+ * Runs `run` once, then fires up to `maxHedges` duplicates spaced `delayMs` apart while
+ * nothing has answered. The first to resolve wins and every other attempt is aborted.
+ * Rejects only when all launched attempts have failed.
+ */
+export function hedge<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  options: HedgeOptions,
+): Promise<HedgeResult<T>> {
+  return new Promise<HedgeResult<T>>((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    let pending = 0;
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const abortAll = () => controllers.forEach((c) => c.abort());
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      options.signal.removeEventListener('abort', abortAll);
+    };
+
+    const launch = (index: number) => {
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+
+      run(controller.signal).then(
+        (value) => {
+          if (settled) return;
+          finish();
+          controllers.forEach((c) => c !== controller && c.abort());
+          resolve({ value, hedged: index > 0 });
+        },
+        (err: unknown) => {
+          pending--;
+          if (settled) return;
+          if (pending === 0) {
+            finish();
+            reject(err);
+          } else if (!options.signal.aborted) {
+            options.onLoserError?.(err);
+          }
+        },
+      );
+
+      if (index < options.maxHedges) {
+        timer = setTimeout(() => {
+          if (!settled && (options.canHedge?.() ?? true)) launch(index + 1);
+        }, options.delayMs);
+      }
+    };
+
+    options.signal.addEventListener('abort', abortAll);
+    launch(0);
+  });
+}
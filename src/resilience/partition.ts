@@ -0,0 +1,27 @@
+import type { PartitionInput, PartitionStrategy } from '../core/types.js';
+
+const SHARED_PARTITION = '*';
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return SHARED_PARTITION;
+  }
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split('?')[0] ?? url;
+  }
+}
+
+export function resolvePartitionKey(strategy: PartitionStrategy, input: PartitionInput): string {
+  if (typeof strategy === 'function') return strategy(input);
+  if (strategy === 'client') return SHARED_PARTITION;
+  if (strategy === 'host') return hostOf(input.url);
+  // route: method plus the route template, or the concrete path when no template was given
+  return `${input.method} ${hostOf(input.url)}${input.route ?? pathOf(input.url)}`;
+}
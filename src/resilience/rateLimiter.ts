@@ -0,0 +1,96 @@
+import type { RateLimitConfig } from '../core/types.js';
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: false,
+  algorithm: 'token-bucket',
+  ratePerSecond: 10,
+  burst: 10,
+  mode: 'wait',
+  maxWaitMs: 5000,
+  partitionBy: 'host',
+  maxPartitions: 1000,
+};
+
+interface Limiter {
+  /** Commits a slot and returns how long to wait for it, or null if that exceeds maxWaitMs */
+  tryReserve(now: number, maxWaitMs: number): number | null;
+}
+
+// Tokens may go negative: a reservation borrows from the future and waits for the refill
+class TokenBucket implements Limiter {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(
+    private readonly ratePerMs: number,
+    private readonly burst: number,
+    now: number,
+  ) {
+    this.tokens = burst;
+    this.refilledAt = now;
+  }
+
+  tryReserve(now: number, maxWaitMs: number): number | null {
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.refilledAt) * this.ratePerMs);
+    this.refilledAt = now;
+    const waitMs = this.tokens >= 1 ? 0 : (1 - this.tokens) / this.ratePerMs;
+    if (waitMs > maxWaitMs) return null;
+    this.tokens -= 1;
+    return Math.ceil(waitMs);
+  }
+}
+
+// Generic cell rate algorithm: tracks the theoretical arrival time instead of a token count
+class Gcra implements Limiter {
+  private tat = 0;
+
+  constructor(
+    private readonly intervalMs: number,
+    private readonly toleranceMs: number,
+  ) {}
+
+  tryReserve(now: number, maxWaitMs: number): number | null {
+    const tat = Math.max(this.tat, now);
+    const waitMs = Math.max(0, tat - this.toleranceMs - now);
+    if (waitMs > maxWaitMs) return null;
+    this.tat = tat + this.intervalMs;
+    return Math.ceil(waitMs);
+  }
+}
+
+export class RateLimiter {
+  private limiters = new Map<string, Limiter>();
+  private readonly config: RateLimitConfig;
+
+  constructor(config: Partial<RateLimitConfig> = {}) {
+    this.config = { ...DEFAULT_RATE_LIMIT_CONFIG, ...config };
+  }
+
+  /**
+   * Reserves a slot for the partition. Returns the wait in ms (0 when a token is free),
+   * or null when the request must be rejected: always in 'fail' mode when no token is free,
+   * and in 'wait' mode when the wait would exceed `maxWaitMs` or `budgetMs`.
+   */
+  reserve(partition: string, budgetMs = Infinity, now = Date.now()): number | null {
+    const maxWaitMs = this.config.mode === 'fail' ? 0 : Math.min(this.config.maxWaitMs, budgetMs);
+    return this.limiterFor(partition, now).tryReserve(now, maxWaitMs);
+  }
+
+  private limiterFor(partition: string, now: number): Limiter {
+    let limiter = this.limiters.get(partition);
+    if (limiter) return limiter;
+
+    const { algorithm, ratePerSecond, burst } = this.config;
+    limiter =
+      algorithm === 'gcra'
+        ? new Gcra(1000 / ratePerSecond, (1000 / ratePerSecond) * (burst - 1))
+        : new TokenBucket(ratePerSecond / 1000, burst, now);
+
+    if (this.limiters.size >= this.config.maxPartitions) {
+      const oldest = this.limiters.keys().next().value;
+      if (oldest !== undefined) this.limiters.delete(oldest);
+    }
+    this.limiters.set(partition, limiter);
+    return limiter;
+  }
+}
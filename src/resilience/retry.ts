@@ -1,4 +1,4 @@
-import type { RetryConfig, RetryStrategy } from '../core/types.js';
+import type { HttpMethod, RetryConfig, RetryStrategy } from '../core/types.js';
 
 export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   enabled: true,
@@ -8,8 +8,14 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxDelayMs: 30000,
   jitter: true,
   retryOn: ['network', '5xx'],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+  failOnExcessiveRetryAfter: false,
 };
 
+// Statuses where a server-provided wait hint makes the request retryable on its own
+const RETRY_AFTER_STATUSES = [429, 503];
+
 function computeDelay(
   strategy: RetryStrategy,
   attempt: number,
@@ -36,14 +42,74 @@ function computeDelay(
   return Math.floor(delay);
 }
 
+/**
+ * Reads the server's requested wait from `Retry-After` (delta-seconds or HTTP-date)
+ * or `RateLimit-Reset` (delta-seconds, or epoch seconds as some providers send).
+ * Returns the wait in milliseconds, or null when neither header is usable.
+ */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | null {
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers.get('ratelimit-reset')?.trim();
+  if (reset && /^\d+$/.test(reset)) {
+    const seconds = Number(reset);
+    // Values this large are absolute timestamps rather than a delta
+    if (seconds > 1_000_000_000) {
+      return Math.max(0, seconds * 1000 - now);
+    }
+    return seconds * 1000;
+  }
+
+  return null;
+}
+
+export interface RetryDecisionContext {
+  method?: HttpMethod;
+  /** The request carries an `Idempotency-Key`, so replaying it is safe for any method */
+  hasIdempotencyKey?: boolean;
+  retryAfterMs?: number | null;
+  /** False when the request body is a stream that the first attempt already consumed */
+  replayable?: boolean;
+}
+
+export function isMethodRetryable(
+  config: RetryConfig,
+  method: HttpMethod,
+  hasIdempotencyKey = false,
+): boolean {
+  return hasIdempotencyKey || config.retryableMethods.includes(method);
+}
+
 export function shouldRetry(
   config: RetryConfig,
   _error: unknown,
   statusCode: number | null,
   attempt: number,
+  context: RetryDecisionContext = {},
 ): boolean {
+  const { method, hasIdempotencyKey = false, retryAfterMs = null, replayable = true } = context;
   if (!config.enabled) return false;
+  if (!replayable) return false;
   if (attempt >= config.maxAttempts) return false;
+  if (method !== undefined && !isMethodRetryable(config, method, hasIdempotencyKey)) return false;
+
+  if (
+    config.respectRetryAfter &&
+    retryAfterMs !== null &&
+    statusCode !== null &&
+    RETRY_AFTER_STATUSES.includes(statusCode)
+  ) {
+    return true;
+  }
 
   for (const condition of config.retryOn) {
     if (condition === 'network' && statusCode === null) return true;
@@ -54,13 +120,40 @@ export function shouldRetry(
   return false;
 }
 
-export async function backoff(config: RetryConfig, attempt: number): Promise<void> {
-  const delay = computeDelay(
+export function getRetryDelay(
+  config: RetryConfig,
+  attempt: number,
+  retryAfterMs: number | null = null,
+): number {
+  if (config.respectRetryAfter && retryAfterMs !== null) {
+    return Math.min(retryAfterMs, config.maxDelayMs);
+  }
+  return computeDelay(
     config.strategy,
     attempt,
     config.baseDelayMs,
     config.maxDelayMs,
     config.jitter,
   );
-  await new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+/** Resolves after `ms`, or early once `signal` aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+export async function backoff(
+  config: RetryConfig,
+  attempt: number,
+  retryAfterMs: number | null = null,
+): Promise<void> {
+  await sleep(getRetryDelay(config, attempt, retryAfterMs));
 }
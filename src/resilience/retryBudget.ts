@@ -0,0 +1,77 @@
+import type { RetryBudgetConfig, RetryBudgetState } from '../core/types.js';
+
+export const DEFAULT_RETRY_BUDGET_CONFIG: RetryBudgetConfig = {
+  enabled: false,
+  ratio: 0.2,
+  minRetriesPerSecond: 10,
+  windowMs: 10000,
+};
+
+const BUCKET_MS = 1000;
+
+interface Bucket {
+  start: number;
+  requests: number;
+  retries: number;
+}
+
+/**
+ * Client-wide cap on retries: within the sliding window, retries may not exceed
+ * `ratio` of requests plus a `minRetriesPerSecond` floor so low-traffic clients can still retry.
+ */
+export class RetryBudget {
+  private buckets: Bucket[] = [];
+  private readonly config: RetryBudgetConfig;
+
+  constructor(config: Partial<RetryBudgetConfig> = {}) {
+    this.config = { ...DEFAULT_RETRY_BUDGET_CONFIG, ...config };
+  }
+
+  recordRequest(now = Date.now()): void {
+    this.bucketAt(now).requests++;
+  }
+
+  // Consumes one retry from the budget; false means the caller must give up
+  tryAcquire(now = Date.now()): boolean {
+    if (!this.config.enabled) return true;
+    if (this.getState(now).available < 1) return false;
+    this.bucketAt(now).retries++;
+    return true;
+  }
+
+  getState(now = Date.now()): RetryBudgetState {
+    this.prune(now);
+    let requests = 0;
+    let retries = 0;
+    for (const bucket of this.buckets) {
+      requests += bucket.requests;
+      retries += bucket.retries;
+    }
+    const allowed =
+      this.config.minRetriesPerSecond * (this.config.windowMs / 1000) +
+      this.config.ratio * requests;
+    return {
+      enabled: this.config.enabled,
+      requests,
+      retries,
+      available: Math.max(0, Math.floor(allowed - retries)),
+    };
+  }
+
+  private bucketAt(now: number): Bucket {
+    this.prune(now);
+    const start = now - (now % BUCKET_MS);
+    const last = this.buckets[this.buckets.length - 1];
+    if (last && last.start === start) return last;
+    const bucket = { start, requests: 0, retries: 0 };
+    this.buckets.push(bucket);
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.config.windowMs;
+    while (this.buckets.length > 0 && (this.buckets[0]?.start ?? now) + BUCKET_MS <= cutoff) {
+      this.buckets.shift();
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import type { ResponseType } from '../core/types.js';
+import { TimeoutError } from '../core/errors.js';
+
+export interface SerializedBody {
+  body: BodyInit;
+  /** Content-Type to send, or undefined to let the runtime derive it (FormData boundaries) */
+  contentType: string | undefined;
+  /** The body can be sent again on retry; streams are consumed by the first attempt */
+  replayable: boolean;
+  isJson: boolean;
+}
+
+export function isStreamBody(body: unknown): body is ReadableStream {
+  return typeof ReadableStream !== 'undefined' && body instanceof ReadableStream;
+}
+
+// Raw bodies pass through untouched; everything else is sent as JSON
+export function serializeBody(
+  body: unknown,
+  stringify: (value: unknown) => string = JSON.stringify,
+): SerializedBody {
+  if (isStreamBody(body)) {
+    return { body, contentType: 'application/octet-stream', replayable: false, isJson: false };
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return { body, contentType: undefined, replayable: true, isJson: false };
+  }
+  if (body instanceof URLSearchParams) {
+    return {
+      body,
+      contentType: 'application/x-www-form-urlencoded;charset=UTF-8',
+      replayable: true,
+      isJson: false,
+    };
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return {
+      body,
+      contentType: body.type || 'application/octet-stream',
+      replayable: true,
+      isJson: false,
+    };
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return {
+      body: body as BodyInit,
+      contentType: 'application/octet-stream',
+      replayable: true,
+      isJson: false,
+    };
+  }
+  return {
+    body: stringify(body),
+    contentType: 'application/json',
+    replayable: true,
+    isJson: true,
+  };
+}
+
+/**
+ * Errors the stream with TimeoutError (and aborts the request) when no chunk arrives
+ * within `idleTimeoutMs` of the previous one.
+ */
+export function withIdleTimeout(
+  stream: ReadableStream<Uint8Array>,
+  idleTimeoutMs: number,
+  controller: AbortController,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(out) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new TimeoutError(idleTimeoutMs));
+        }, idleTimeoutMs);
+      });
+      try {
+        const chunk = await Promise.race([reader.read(), idle]);
+        if (chunk.done) out.close();
+        else out.enqueue(chunk.value);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+async function readBuffered(
+  response: Response,
+  responseType: Exclude<ResponseType, 'stream'>,
+  body: ReadableStream<Uint8Array>,
+): Promise<unknown> {
+  const bytes = await readAll(body);
+  const contentType = response.headers.get('content-type') ?? '';
+  if (responseType === 'arrayBuffer') return bytes.buffer;
+  if (responseType === 'blob') return new Blob([bytes], { type: contentType });
+  const text = new TextDecoder().decode(bytes);
+  if (responseType === 'json' || (responseType === 'auto' && contentType.includes('json'))) {
+    return JSON.parse(text) as unknown;
+  }
+  return text;
+}
+
+/**
+ * Reads the response according to `responseType`. 'auto' keeps the historical behavior:
+ * JSON when the Content-Type says so, text otherwise. With an idle timeout the body is
+ * read chunk by chunk so a stalled download fails instead of hanging.
+ */
+export async function parseResponseBody(
+  response: Response,
+  responseType: ResponseType,
+  idleTimeoutMs: number | undefined,
+  controller: AbortController,
+): Promise<unknown> {
+  const guarded =
+    idleTimeoutMs !== undefined && response.body
+      ? withIdleTimeout(response.body, idleTimeoutMs, controller)
+      : null;
+
+  if (responseType === 'stream') return guarded ?? response.body;
+  if (guarded) return readBuffered(response, responseType, guarded);
+
+  switch (responseType) {
+    case 'json':
+      return response.json();
+    case 'text':
+      return response.text();
+    case 'arrayBuffer':
+      return response.arrayBuffer();
+    case 'blob':
+      return response.blob();
+    default: {
+      const contentType = response.headers.get('content-type') ?? '';
+      return contentType.includes('application/json') ? response.json() : response.text();
+    }
+  }
+}
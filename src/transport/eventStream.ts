@@ -0,0 +1,82 @@
+export interface ServerSentEvent {
+  data: string;
+  event?: string;
+  id?: string;
+}
+
+async function* lines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  // A chunk ended on \r, so a \n opening the next chunk completes that CRLF
+  let pendingCR = false;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      if (pendingCR && buffer.length > 0) {
+        if (buffer.startsWith('\n')) buffer = buffer.slice(1);
+        pendingCR = false;
+      }
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        const width = buffer.startsWith('\r\n', newline) ? 2 : 1;
+        pendingCR = width === 1 && buffer[newline] === '\r' && newline + 1 === buffer.length;
+        buffer = buffer.slice(newline + width);
+        yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.length > 0) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Parses a `text/event-stream` body per the HTML living standard */
+export async function* parseServerSentEvents(
+  stream: ReadableStream<Uint8Array>,
+  onRetry?: (ms: number) => void,
+): AsyncGenerator<ServerSentEvent> {
+  let data: string[] = [];
+  let event: string | undefined;
+  let id: string | undefined;
+
+  for await (const line of lines(stream)) {
+    if (line === '') {
+      // Blank line dispatches; an event without data lines is dropped
+      if (data.length > 0) {
+        yield {
+          data: data.join('\n'),
+          ...(event !== undefined ? { event } : {}),
+          ...(id !== undefined ? { id } : {}),
+        };
+      }
+      data = [];
+      event = undefined;
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') data.push(value);
+    else if (field === 'event') event = value;
+    else if (field === 'id' && !value.includes('\0')) id = value;
+    // The reconnection delay applies immediately, not when the event dispatches
+    else if (field === 'retry' && /^\d+$/.test(value)) onRetry?.(Number(value));
+  }
+}
+
+/** Parses newline-delimited JSON, skipping blank lines */
+export async function* parseNdjson(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  for await (const line of lines(stream)) {
+    if (line.trim() === '') continue;
+    yield JSON.parse(line) as unknown;
+  }
+}
@@ -5,10 +5,44 @@ import {
   RetryExhaustedError,
   DeterministicStateError,
   ResponseValidationError,
+  RetryAfterExceededError,
+  DeadlineExceededError,
+  RetryBudgetExhaustedError,
+  BulkheadRejectedError,
+  RateLimitedError,
+  TimeoutError,
+  InvalidRequestError,
+  RequestValidationError,
+  AuthenticationError,
+  IntegrityViolationError,
 } from '../src/core/errors';
 import { StateMachine } from '../src/core/stateMachine';
 import { CircuitBreaker } from '../src/resilience/circuitBreaker';
+import { CircuitBreakerRegistry } from '../src/resilience/circuitRegistry';
+import { resolvePartitionKey } from '../src/resilience/partition';
+import {
+  InMemoryCircuitStateStore,
+  FileCircuitStateStore,
+  CircuitStoreSync,
+} from '../src/resilience/circuitStore';
 import { DedupeMap } from '../src/resilience/dedupe';
+import { RetryBudget } from '../src/resilience/retryBudget';
+import { Bulkhead } from '../src/resilience/bulkhead';
+import { AdaptiveLimiter } from '../src/resilience/adaptiveLimit';
+import { RateLimiter } from '../src/resilience/rateLimiter';
+import { buildURL, joinURL, serializeParams } from '../src/protocol/url';
+import { generateClient } from '../src/codegen/openapi';
+import { StaticBearerAuth, BasicAuth, OAuth2ClientCredentials } from '../src/auth/providers';
+import type { OpenAPIDocument } from '../src/codegen/openapi';
+import { InMemoryCacheStore } from '../src/cache/cacheStore';
+import { OpenMetricsRegistry } from '../src/observability/openMetrics';
+import { Metrics } from '../src/observability/instrumentation';
+import { canonicalJSON, computePayloadHash } from '../src/protocol/payloadHash';
+import { generateIdempotencyKey } from '../src/protocol/headers';
+import { InMemoryIdempotencyStore, FileIdempotencyStore } from '../src/protocol/idempotencyStore';
+import type { CacheEntry } from '../src/core/types';
+import { parseRetryAfter, getRetryDelay, DEFAULT_RETRY_CONFIG } from '../src/resilience/retry';
+import { parseServerSentEvents } from '../src/transport/eventStream';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -100,6 +134,248 @@ describe('CircuitBreaker', () => {
   });
 });
 
+describe('CircuitBreaker sliding window', () => {
+  it('opens on failure rate once minimumRequests is reached', () => {
+    const cb = new CircuitBreaker({
+      windowType: 'count',
+      windowSize: 10,
+      minimumRequests: 4,
+      failureRateThreshold: 0.5,
+    });
+    cb.recordFailure();
+    cb.recordSuccess();
+    cb.recordFailure();
+    expect(cb.getState()).toBe('CLOSED'); // below minimumRequests
+    cb.recordSuccess();
+    cb.recordFailure();
+    expect(cb.getState()).toBe('OPEN'); // 3 of 5 failed
+  });
+
+  it('counts slow calls as failures', () => {
+    const cb = new CircuitBreaker({ failureThreshold: 1, slowCallDurationMs: 100 });
+    cb.recordOutcome({ status: 200, durationMs: 250 });
+    expect(cb.getState()).toBe('OPEN');
+  });
+
+  it('ignores client errors by default and honors a custom predicate', () => {
+    const cb = new CircuitBreaker({ failureThreshold: 1 });
+    cb.recordOutcome({ status: 404, durationMs: 5 });
+    cb.recordOutcome({ status: 422, durationMs: 5 });
+    expect(cb.getState()).toBe('CLOSED');
+
+    const strict = new CircuitBreaker({ failureThreshold: 1, isFailure: ({ status }) => status !== 200 });
+    strict.recordOutcome({ status: 404, durationMs: 5 });
+    expect(strict.getState()).toBe('OPEN');
+  });
+});
+
+describe('Circuit partitions', () => {
+  it('derives partition keys from host, route or a custom function', () => {
+    const input = { method: 'GET' as const, url: 'https://a.example.com/users/7?x=1' };
+    expect(resolvePartitionKey('client', input)).toBe('*');
+    expect(resolvePartitionKey('host', input)).toBe('a.example.com');
+    expect(resolvePartitionKey('route', input)).toBe('GET a.example.com/users/7');
+    expect(resolvePartitionKey('route', { ...input, route: '/users/:id' })).toBe(
+      'GET a.example.com/users/:id',
+    );
+    expect(resolvePartitionKey(({ method }) => method, input)).toBe('GET');
+  });
+
+  it('evicts the least recently used closed breaker first', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1 }, 2);
+    registry.get('a').recordFailure(); // OPEN
+    registry.get('b');
+    registry.get('c');
+    expect(registry.entries().map(([key]) => key)).toEqual(['a', 'c']);
+  });
+
+  it('isolates a failing host from the rest of the client', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+      const ok = !url.startsWith('https://flaky.example.com');
+      return {
+        ok,
+        status: ok ? 200 : 500,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({}),
+      };
+    });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    await expect(
+      client.request({ method: 'GET', url: 'https://flaky.example.com/x' }),
+    ).rejects.toThrow(NetworkError);
+    await expect(
+      client.request({ method: 'GET', url: 'https://flaky.example.com/x' }),
+    ).rejects.toThrow(CircuitOpenError);
+
+    const res = await client.request({ method: 'GET', url: '/users/1' });
+    expect(res.status).toBe(200);
+
+    const health = client.health();
+    expect(health.circuitState).toBe('OPEN');
+    expect(health.circuits['flaky.example.com']?.state).toBe('OPEN');
+    expect(health.circuits['api.example.com']?.state).toBe('CLOSED');
+  });
+});
+
+describe('Circuit state changes and manual control', () => {
+  it('emits every transition with its reason', async () => {
+    const cb = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 10 });
+    const transitions: string[] = [];
+    cb.onStateChange((t) => transitions.push(`${t.from}→${t.to}:${t.reason}:${t.failures}`));
+    cb.recordFailure();
+    cb.recordFailure();
+    await new Promise((r) => setTimeout(r, 20));
+    cb.check();
+    cb.recordSuccess();
+    expect(transitions).toEqual([
+      'CLOSED→OPEN:failure_threshold:2',
+      'OPEN→HALF_OPEN:reset_timeout:2',
+      'HALF_OPEN→CLOSED:probe_succeeded:0',
+    ]);
+  });
+
+  it('holds a forced state until reset', () => {
+    const cb = new CircuitBreaker({ failureThreshold: 1 });
+    cb.forceClosed();
+    cb.recordFailure();
+    expect(cb.getState()).toBe('CLOSED');
+    cb.forceOpen();
+    expect(() => cb.check()).toThrow(CircuitOpenError);
+    cb.reset();
+    expect(cb.getState()).toBe('CLOSED');
+    expect(() => cb.check()).not.toThrow();
+  });
+
+  it('exposes forceOpen/reset on the client and reports through hooks', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+    const onCircuitStateChange = jest.fn();
+    client.use({ onCircuitStateChange });
+
+    client.forceOpen('api.example.com');
+    await expect(client.request({ method: 'GET', url: '/x' })).rejects.toThrow(CircuitOpenError);
+    expect(client.health().circuits['api.example.com']).toMatchObject({
+      state: 'OPEN',
+      forced: true,
+    });
+
+    client.reset();
+    const res = await client.request({ method: 'GET', url: '/x' });
+    expect(res.status).toBe(200);
+    expect(onCircuitStateChange.mock.calls.map(([e]) => [e.partition, e.to, e.reason])).toEqual([
+      ['api.example.com', 'OPEN', 'forced_open'],
+      ['api.example.com', 'CLOSED', 'reset'],
+    ]);
+  });
+
+  it('applies a client-wide forceOpen to partitions created later', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+
+    client.forceOpen();
+    await expect(client.request({ method: 'GET', url: '/x' })).rejects.toThrow(CircuitOpenError);
+    await expect(
+      client.request({ method: 'GET', url: 'https://other.example.com/x' }),
+    ).rejects.toThrow(CircuitOpenError);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    client.reset();
+    expect((await client.request({ method: 'GET', url: 'https://third.example.com/x' })).status).toBe(
+      200,
+    );
+  });
+});
+
+describe('Shared circuit state', () => {
+  const flush = () => new Promise((r) => setImmediate(r));
+
+  it('propagates an open circuit to another client through the store', async () => {
+    mockFetch(500, {});
+    const store = new InMemoryCircuitStateStore();
+    const config = {
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1, store, syncIntervalMs: 0 },
+    };
+    const podA = createStrontiumClient(config);
+    const podB = createStrontiumClient(config);
+
+    await expect(podA.request({ method: 'GET', url: '/x' })).rejects.toThrow(NetworkError);
+    await flush();
+    (global.fetch as jest.Mock).mockClear();
+
+    await expect(podB.request({ method: 'GET', url: '/x' })).rejects.toThrow(CircuitOpenError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('falls back to local state when the store fails', async () => {
+    mockFetch(200, { ok: true });
+    const broken = {
+      get: () => Promise.reject(new Error('store down')),
+      compareAndSet: () => Promise.reject(new Error('store down')),
+    };
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      circuitBreaker: { store: broken, syncIntervalMs: 0 },
+    });
+    const res = await client.request({ method: 'GET', url: '/x' });
+    expect(res.status).toBe(200);
+  });
+
+  it('ignores remote snapshots from a skewed clock', async () => {
+    const store = new InMemoryCircuitStateStore();
+    const now = Date.now();
+    await store.compareAndSet('k', null, {
+      state: 'OPEN',
+      failures: 5,
+      lastOpenedAt: now + 60_000,
+      updatedAt: now + 60_000,
+      version: 1,
+    });
+    const cb = new CircuitBreaker();
+    const sync = new CircuitStoreSync(cb, store, 'k', { syncIntervalMs: 0, maxClockSkewMs: 1000 });
+    await sync.pull(now);
+    expect(cb.getState()).toBe('CLOSED');
+  });
+
+  it('persists snapshots to a file with compare-and-set', async () => {
+    const os = await import('os');
+    const path = await import('path');
+    const fs = await import('fs/promises');
+    const file = path.join(os.tmpdir(), `strontium-circuit-${process.pid}-${Date.now()}.json`);
+    const store = new FileCircuitStateStore(file);
+    const snapshot = { state: 'OPEN' as const, failures: 3, lastOpenedAt: 1, updatedAt: 1, version: 1 };
+    try {
+      expect(await store.compareAndSet('k', null, snapshot)).toBe(true);
+      expect(await store.compareAndSet('k', null, { ...snapshot, version: 2 })).toBe(false);
+      expect(await store.get('k')).toEqual(snapshot);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  });
+
+  it('keeps every partition when the file store is written concurrently', async () => {
+    const os = await import('os');
+    const path = await import('path');
+    const fs = await import('fs/promises');
+    const file = path.join(os.tmpdir(), `strontium-circuits-${process.pid}-${Date.now()}.json`);
+    const store = new FileCircuitStateStore(file);
+    const snapshot = { state: 'OPEN' as const, failures: 3, lastOpenedAt: 1, updatedAt: 1, version: 1 };
+    const keys = ['a', 'b', 'c', 'd'];
+    try {
+      const results = await Promise.all(keys.map((key) => store.compareAndSet(key, null, snapshot)));
+      expect(results).toEqual([true, true, true, true]);
+      for (const key of keys) expect(await store.get(key)).toEqual(snapshot);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  });
+});
+
 // ─── Deduplication ────────────────────────────────────────────────────────────
 describe('DedupeMap', () => {
   it('returns same promise for same key', () => {
@@ -227,3 +503,1740 @@ describe('StrontiumClient.request()', () => {
     expect(res.status).toBe(200);
   });
 });
+
+// ─── Retry-After ──────────────────────────────────────────────────────────────
+describe('Retry-After handling', () => {
+  it('parses delta-seconds, HTTP-date and RateLimit-Reset', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter(new Headers({ 'retry-after': '3' }), now)).toBe(3000);
+    expect(
+      parseRetryAfter(new Headers({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }), now),
+    ).toBe(5000);
+    expect(parseRetryAfter(new Headers({ 'ratelimit-reset': '2' }), now)).toBe(2000);
+    expect(parseRetryAfter(new Headers({}), now)).toBeNull();
+  });
+
+  it('caps the server-requested delay at maxDelayMs', () => {
+    const config = { ...DEFAULT_RETRY_CONFIG, maxDelayMs: 1000 };
+    expect(getRetryDelay(config, 1, 60000)).toBe(1000);
+  });
+
+  it('retries a 429 that carries Retry-After', async () => {
+    let calls = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () => {
+      calls++;
+      if (calls < 2) {
+        return {
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'retry-after': '0' }),
+          json: async () => ({}),
+        };
+      }
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ ok: true }),
+      };
+    });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+    const res = await client.request({ method: 'GET', url: '/throttled' });
+    expect(res.status).toBe(200);
+    expect(calls).toBe(2);
+  });
+
+  it('fails fast when Retry-After exceeds the budget', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => ({
+      ok: false,
+      status: 503,
+      headers: new Headers({ 'retry-after': '120' }),
+      json: async () => ({}),
+    }));
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxDelayMs: 1000, failOnExcessiveRetryAfter: true },
+    });
+    await expect(client.request({ method: 'GET', url: '/busy' })).rejects.toThrow(
+      RetryAfterExceededError,
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─── Per-request overrides ────────────────────────────────────────────────────
+describe('Per-request overrides', () => {
+  it('merges a partial retry config over client defaults', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+    await expect(
+      client.request({ method: 'GET', url: '/once', retry: { maxAttempts: 1 } }),
+    ).rejects.toThrow(NetworkError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('bypasses an open circuit breaker when asked', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    await expect(client.request({ method: 'GET', url: '/down' })).rejects.toThrow(NetworkError);
+    await expect(client.request({ method: 'GET', url: '/down' })).rejects.toThrow(
+      CircuitOpenError,
+    );
+
+    mockFetch(200, { ok: true });
+    const res = await client.request({ method: 'GET', url: '/down', bypassCircuitBreaker: true });
+    expect(res.status).toBe(200);
+    expect(client.health().circuitState).toBe('OPEN');
+  });
+
+  it('overrides protocolMode per request', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+    await client.request({
+      method: 'POST',
+      url: '/payments',
+      body: { amount: 1 },
+      protocolMode: 'idempotent',
+      idempotencyKey: 'override-key',
+    });
+    const init = (global.fetch as jest.Mock).mock.calls[0][1] as RequestInit;
+    expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe('override-key');
+  });
+});
+
+// ─── Method-aware retry ───────────────────────────────────────────────────────
+describe('Method-aware retry', () => {
+  const retry = { maxAttempts: 3, baseDelayMs: 1, jitter: false };
+
+  it('does not retry POST without an idempotency key', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com', retry });
+    await expect(
+      client.request({ method: 'POST', url: '/charges', body: { amount: 1 } }),
+    ).rejects.toThrow(NetworkError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries POST when an Idempotency-Key is present', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry,
+      protocolMode: 'idempotent',
+    });
+    await expect(
+      client.request({ method: 'POST', url: '/charges', body: { amount: 1 } }),
+    ).rejects.toThrow(RetryExhaustedError);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries POST when the caller opts in via retryableMethods', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com', retry });
+    await expect(
+      client.request({
+        method: 'POST',
+        url: '/search',
+        body: { q: 'x' },
+        retry: { retryableMethods: ['POST'] },
+      }),
+    ).rejects.toThrow(RetryExhaustedError);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+// ─── Deadline ─────────────────────────────────────────────────────────────────
+describe('Request deadline', () => {
+  it('shrinks the attempt timeout to the remaining deadline', async () => {
+    mockFetch(200, { ok: true }, 200);
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com', timeoutMs: 5000 });
+    const started = Date.now();
+    await expect(
+      client.request({ method: 'GET', url: '/slow', deadlineMs: 30 }),
+    ).rejects.toThrow(DeadlineExceededError);
+    expect(Date.now() - started).toBeLessThan(150);
+  });
+
+  it('skips a backoff that would overshoot the deadline', async () => {
+    mockFetch(503, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      deadlineMs: 50,
+      retry: { maxAttempts: 5, baseDelayMs: 1000, strategy: 'fixed', jitter: false },
+    });
+    await expect(client.request({ method: 'GET', url: '/busy' })).rejects.toThrow(
+      DeadlineExceededError,
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('propagates the remaining budget downstream', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com', deadlineMs: 5000 });
+    await client.request({ method: 'GET', url: '/ok' });
+    const init = (global.fetch as jest.Mock).mock.calls[0][1] as RequestInit;
+    const remaining = Number((init.headers as Record<string, string>)['X-Request-Deadline']);
+    expect(remaining).toBeGreaterThan(0);
+    expect(remaining).toBeLessThanOrEqual(5000);
+  });
+});
+
+// ─── Hedging ──────────────────────────────────────────────────────────────────
+describe('Hedged requests', () => {
+  function mockSlowFirstCall(signals: AbortSignal[]): void {
+    let calls = 0;
+    (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) => {
+      calls++;
+      signals.push(init.signal as AbortSignal);
+      if (calls === 1) await new Promise((r) => setTimeout(r, 200));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+        json: async () => ({ call: calls }),
+      };
+    });
+  }
+
+  it('fires a duplicate after the hedge delay and aborts the loser', async () => {
+    const signals: AbortSignal[] = [];
+    mockSlowFirstCall(signals);
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      hedging: { enabled: true, delayMs: 10 },
+    });
+    const afterResponse = jest.fn();
+    client.use({ onAfterResponse: afterResponse });
+
+    const res = await client.request({ method: 'GET', url: '/replica' });
+    expect(res.hedged).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(signals[0]?.aborted).toBe(true);
+    expect(afterResponse.mock.calls[0][0].hedged).toBe(true);
+  });
+
+  it('counts a duplicate that fails while a sibling is running', async () => {
+    let calls = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () => {
+      calls++;
+      if (calls === 1) {
+        await new Promise((r) => setTimeout(r, 20));
+        throw new TypeError('fetch failed');
+      }
+      await new Promise((r) => setTimeout(r, 50));
+      return Response.json({ ok: true });
+    });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      hedging: { enabled: true, delayMs: 10 },
+    });
+
+    await client.request({ method: 'GET', url: '/replica' });
+    const text = client.metricsText();
+    expect(text).toContain(
+      'strontium_requests_total{method="GET",host="api.example.com",status="none",outcome="network_error"} 1',
+    );
+    expect(text).toContain(
+      'strontium_requests_total{method="GET",host="api.example.com",status="200",outcome="success"} 1',
+    );
+  });
+
+  it('never hedges non-idempotent methods', async () => {
+    const signals: AbortSignal[] = [];
+    mockSlowFirstCall(signals);
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      hedging: { enabled: true, delayMs: 10 },
+    });
+    const res = await client.request({ method: 'POST', url: '/orders', body: {} });
+    expect(res.hedged).toBeUndefined();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('can be disabled per request', async () => {
+    const signals: AbortSignal[] = [];
+    mockSlowFirstCall(signals);
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      hedging: { enabled: true, delayMs: 10 },
+    });
+    await client.request({ method: 'GET', url: '/replica', hedging: false });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ─── Retry Budget ─────────────────────────────────────────────────────────────
+describe('RetryBudget', () => {
+  it('allows retries up to the configured ratio of requests', () => {
+    const budget = new RetryBudget({ enabled: true, ratio: 0.5, minRetriesPerSecond: 0 });
+    budget.recordRequest();
+    budget.recordRequest();
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    expect(budget.getState()).toMatchObject({ requests: 2, retries: 1, available: 0 });
+  });
+
+  it('forgets requests outside the window', () => {
+    const budget = new RetryBudget({ enabled: true, ratio: 1, minRetriesPerSecond: 0, windowMs: 1000 });
+    budget.recordRequest(0);
+    expect(budget.getState(5000).requests).toBe(0);
+    expect(budget.tryAcquire(5000)).toBe(false);
+  });
+
+  it('stops the client retrying once the budget is spent', async () => {
+    mockFetch(503, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+      retryBudget: { enabled: true, ratio: 0, minRetriesPerSecond: 0 },
+    });
+    await expect(client.request({ method: 'GET', url: '/down' })).rejects.toThrow(
+      RetryBudgetExhaustedError,
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(client.health().retryBudget).toMatchObject({ enabled: true, requests: 1, available: 0 });
+  });
+});
+
+// ─── Bulkhead ─────────────────────────────────────────────────────────────────
+describe('Bulkhead', () => {
+  it('queues beyond maxConcurrent and grants on release', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    const first = await bulkhead.acquire('a');
+    const second = bulkhead.acquire('a');
+    expect(bulkhead.getState()).toMatchObject({ active: 1, queued: 1 });
+    await expect(bulkhead.acquire('a')).rejects.toMatchObject({ reason: 'queue_full' });
+
+    first.release();
+    const granted = await second;
+    expect(bulkhead.getState()).toMatchObject({ active: 1, queued: 0, rejected: 1 });
+    granted.release();
+    expect(bulkhead.getState().active).toBe(0);
+  });
+
+  it('rejects waiters that exceed the queue timeout', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, queueTimeoutMs: 10 });
+    await bulkhead.acquire('a');
+    await expect(bulkhead.acquire('a')).rejects.toThrow(BulkheadRejectedError);
+  });
+
+  it('rejects an already aborted waiter as cancelled without queuing it', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, queueTimeoutMs: 5000 });
+    await bulkhead.acquire('a');
+    const abort = new AbortController();
+    abort.abort();
+    const started = Date.now();
+    await expect(bulkhead.acquire('a', { signal: abort.signal })).rejects.toMatchObject({
+      reason: 'cancelled',
+    });
+    expect(Date.now() - started).toBeLessThan(100);
+    expect(bulkhead.getState()).toMatchObject({ queued: 0, rejected: 1 });
+  });
+
+  it('serves higher priority first in priority mode', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, queueOrder: 'priority' });
+    const held = await bulkhead.acquire('a');
+    const order: string[] = [];
+    const low = bulkhead.acquire('a', { priority: 1 }).then((p) => (order.push('low'), p));
+    const high = bulkhead.acquire('a', { priority: 5 }).then((p) => (order.push('high'), p));
+    held.release();
+    (await high).release();
+    (await low).release();
+    expect(order).toEqual(['high', 'low']);
+  });
+
+  it('limits concurrency per partition', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 10, maxConcurrentPerPartition: 1, queueTimeoutMs: 10 });
+    await bulkhead.acquire('a');
+    const other = await bulkhead.acquire('b');
+    expect(other.waitMs).toBe(0);
+    bulkhead.acquire('a').catch(() => undefined);
+    expect(bulkhead.getState().partitions['a']).toEqual({ active: 1, queued: 1 });
+  });
+
+  it('admits other partitions while one partition has waiters', async () => {
+    const bulkhead = new Bulkhead({
+      maxConcurrent: 10,
+      maxConcurrentPerPartition: 1,
+      queueTimeoutMs: 50,
+    });
+    const first = await bulkhead.acquire('a');
+    const queued = bulkhead.acquire('a');
+    await expect(bulkhead.acquire('b')).resolves.toMatchObject({ waitMs: 0 });
+
+    // A later request for the saturated partition still waits its turn
+    const later = bulkhead.acquire('a');
+    first.release();
+    await queued;
+    expect(bulkhead.getState().partitions['a']).toEqual({ active: 1, queued: 1 });
+    await expect(later).rejects.toThrow(BulkheadRejectedError);
+  });
+
+  it('rejects with BulkheadRejectedError instead of NetworkError on the client', async () => {
+    mockFetch(200, { ok: true }, 50);
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      bulkhead: { maxConcurrent: 1, maxQueue: 0 },
+    });
+    const first = client.request({ method: 'GET', url: '/a' });
+    await expect(client.request({ method: 'GET', url: '/b' })).rejects.toThrow(
+      BulkheadRejectedError,
+    );
+    expect(client.health().bulkhead).toMatchObject({ active: 1, rejected: 1 });
+    await first;
+  });
+});
+
+// ─── Adaptive Concurrency ─────────────────────────────────────────────────────
+describe('AdaptiveLimiter', () => {
+  it('grows additively while latency is stable and the limit is used', () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 2, additiveIncrease: 1 });
+    for (let i = 0; i < 10; i++) limiter.onSample({ latencyMs: 10, dropped: false, inFlight: 2 });
+    expect(limiter.getLimit()).toBeGreaterThan(2);
+    expect(limiter.getState().history[0]).toMatchObject({ limit: 3, reason: 'increase' });
+  });
+
+  it('does not grow when the client is not using its limit', () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 10 });
+    for (let i = 0; i < 20; i++) limiter.onSample({ latencyMs: 10, dropped: false, inFlight: 1 });
+    expect(limiter.getLimit()).toBe(10);
+  });
+
+  it('backs off multiplicatively on overload and latency inflation', () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 20, backoffRatio: 0.5, latencyTolerance: 2 });
+    limiter.onSample({ latencyMs: 10, dropped: true, inFlight: 20 });
+    expect(limiter.getLimit()).toBe(10);
+    limiter.onSample({ latencyMs: 10, dropped: false, inFlight: 0 });
+    limiter.onSample({ latencyMs: 50, dropped: false, inFlight: 0 });
+    expect(limiter.getLimit()).toBe(5);
+    expect(limiter.getState().history.map((c) => c.reason)).toEqual(['overload', 'latency']);
+  });
+
+  it('rebaselines after a lasting latency shift, per partition', () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 20, baselineWindowMs: 1000 });
+    let now = 0;
+    const sample = (partition: string, latencyMs: number) =>
+      limiter.onSample({ partition, latencyMs, dropped: false, inFlight: 100 }, (now += 10));
+
+    for (let i = 0; i < 50; i++) sample('slow', 10);
+    sample('fast', 10);
+    for (let i = 0; i < 50; i++) sample('slow', 40);
+    const shrunk = limiter.getLimit();
+    expect(shrunk).toBeLessThan(20);
+
+    // once the old window ages out, 40 ms is the new normal and the limit grows back
+    for (let i = 0; i < 300; i++) sample('slow', 40);
+    expect(limiter.getState().baselineLatencyMs).toEqual({ slow: 40, fast: 10 });
+    expect(limiter.getLimit()).toBeGreaterThan(shrunk);
+    expect(limiter.getState().history.at(-1)?.reason).toBe('increase');
+  });
+
+  it('never leaves [minLimit, maxLimit]', () => {
+    const limiter = new AdaptiveLimiter({ initialLimit: 2, minLimit: 2, backoffRatio: 0.1 });
+    limiter.onSample({ latencyMs: 10, dropped: true, inFlight: 2 });
+    expect(limiter.getLimit()).toBe(2);
+  });
+
+  it('drives the client bulkhead and reports through health()', async () => {
+    mockFetch(503, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 1 },
+      adaptiveConcurrency: { enabled: true, initialLimit: 10, backoffRatio: 0.5 },
+    });
+    await expect(client.request({ method: 'GET', url: '/overloaded' })).rejects.toThrow(
+      NetworkError,
+    );
+    const health = client.health();
+    expect(health.adaptiveConcurrency?.limit).toBe(5);
+    expect(health.bulkhead.maxConcurrent).toBe(5);
+  });
+
+  it('stays under the static bulkhead cap', () => {
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      bulkhead: { maxConcurrent: 5 },
+      adaptiveConcurrency: { enabled: true, initialLimit: 50 },
+    });
+    expect(client.health().adaptiveConcurrency?.limit).toBe(50);
+    expect(client.health().bulkhead.maxConcurrent).toBe(5);
+  });
+});
+
+// ─── Rate Limiting ────────────────────────────────────────────────────────────
+describe('RateLimiter', () => {
+  it.each(['token-bucket', 'gcra'] as const)('%s allows a burst then paces', (algorithm) => {
+    const limiter = new RateLimiter({ algorithm, ratePerSecond: 10, burst: 2 });
+    expect(limiter.reserve('a', Infinity, 0)).toBe(0);
+    expect(limiter.reserve('a', Infinity, 0)).toBe(0);
+    expect(limiter.reserve('a', Infinity, 0)).toBe(100);
+    expect(limiter.reserve('b', Infinity, 0)).toBe(0); // separate partition
+  });
+
+  it('rejects instead of waiting in fail mode or beyond maxWaitMs', () => {
+    const failFast = new RateLimiter({ ratePerSecond: 1, burst: 1, mode: 'fail' });
+    expect(failFast.reserve('a', Infinity, 0)).toBe(0);
+    expect(failFast.reserve('a', Infinity, 0)).toBeNull();
+
+    const bounded = new RateLimiter({ ratePerSecond: 1, burst: 1, maxWaitMs: 500 });
+    expect(bounded.reserve('a', Infinity, 0)).toBe(0);
+    expect(bounded.reserve('a', Infinity, 0)).toBeNull();
+  });
+
+  it('charges retries against the quota and reports through hooks', async () => {
+    mockFetch(500, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+      rateLimit: { enabled: true, ratePerSecond: 1, burst: 2, mode: 'fail' },
+    });
+    const onRateLimited = jest.fn();
+    client.use({ onRateLimited });
+
+    await expect(client.request({ method: 'GET', url: '/quota' })).rejects.toThrow(
+      RateLimitedError,
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(onRateLimited).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 3 }),
+      { partition: 'api.example.com', waitMs: 0, rejected: true },
+    );
+  });
+
+  it('cancels without sending when the signal aborts during a wait', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      rateLimit: { enabled: true, ratePerSecond: 1, burst: 1 },
+    });
+    const onCancel = jest.fn();
+    client.use({ onCancel });
+    await client.request({ method: 'GET', url: '/a' });
+
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(), 20);
+    const started = Date.now();
+    await expect(
+      client.request({ method: 'GET', url: '/b', signal: abort.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('delays requests in wait mode', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      rateLimit: { enabled: true, ratePerSecond: 50, burst: 1 },
+    });
+    await client.request({ method: 'GET', url: '/a' });
+    const started = Date.now();
+    await client.request({ method: 'GET', url: '/b' });
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+});
+
+describe('Request and response bodies', () => {
+  const client = () =>
+    createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+  const sentInit = (): RequestInit => (global.fetch as jest.Mock).mock.calls[0][1] as RequestInit;
+
+  it('lets a lowercase content-type override the default', async () => {
+    mockFetch(200, {});
+    await client().post('/up', new Uint8Array([1, 2, 3]), {
+      headers: { 'content-type': 'image/png' },
+    });
+    const sent = new Headers(sentInit().headers);
+    expect(sent.get('content-type')).toBe('image/png');
+  });
+
+  it('passes raw bodies through with a matching Content-Type', async () => {
+    mockFetch(200, {});
+    const form = new URLSearchParams({ a: '1' });
+    await client().request({ method: 'POST', url: '/form', body: form });
+    expect(sentInit().body).toBe(form);
+    expect((sentInit().headers as Record<string, string>)['Content-Type']).toBe(
+      'application/x-www-form-urlencoded;charset=UTF-8',
+    );
+
+    (global.fetch as jest.Mock).mockClear();
+    const bytes = new Uint8Array([1, 2, 3]);
+    await client().request({ method: 'PUT', url: '/bin', body: bytes });
+    expect(sentInit().body).toBe(bytes);
+    expect((sentInit().headers as Record<string, string>)['Content-Type']).toBe(
+      'application/octet-stream',
+    );
+
+    (global.fetch as jest.Mock).mockClear();
+    await client().request({ method: 'POST', url: '/upload', body: new FormData() });
+    expect((sentInit().headers as Record<string, string>)['Content-Type']).toBeUndefined();
+  });
+
+  it('still sends plain objects as JSON', async () => {
+    mockFetch(200, {});
+    await client().request({ method: 'POST', url: '/json', body: { a: 1 } });
+    expect(sentInit().body).toBe('{"a":1}');
+    expect((sentInit().headers as Record<string, string>)['Content-Type']).toBe(
+      'application/json',
+    );
+  });
+
+  it('does not retry a stream body', async () => {
+    mockFetch(503, {});
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+        controller.close();
+      },
+    });
+    await expect(
+      client().request({ method: 'PUT', url: '/stream', body, idempotencyKey: 'k' }),
+    ).rejects.toThrow(NetworkError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(sentInit()).toMatchObject({ duplex: 'half' });
+  });
+
+  it('reads the response according to responseType', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () => new Response('hello'));
+    const buffer = await client().request<ArrayBuffer>({
+      method: 'GET',
+      url: '/file',
+      responseType: 'arrayBuffer',
+    });
+    expect(new TextDecoder().decode(buffer.data)).toBe('hello');
+
+    const stream = await client().request<ReadableStream<Uint8Array>>({
+      method: 'GET',
+      url: '/file',
+      responseType: 'stream',
+    });
+    expect(await new Response(stream.data).text()).toBe('hello');
+  });
+
+  it('fails a download that stalls between chunks', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('partial'));
+          init.signal?.addEventListener('abort', () => controller.error(new Error('aborted')));
+        },
+      });
+      return new Response(body);
+    });
+    await expect(
+      createStrontiumClient({ baseURL: 'https://api.example.com' }).request({
+        method: 'GET',
+        url: '/slow',
+        responseType: 'text',
+        idleTimeoutMs: 30,
+      }),
+    ).rejects.toThrow(TimeoutError);
+  });
+});
+
+describe('Event streams', () => {
+  function streamOf(text: string): ReadableStream<Uint8Array> {
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(text));
+        controller.close();
+      },
+    });
+  }
+  const client = () =>
+    createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+
+  it('parses SSE events and resumes from the last event id after a disconnect', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        new Response(
+          streamOf('id: 1\nevent: tick\ndata: {"n":1}\n\n: comment\nid: 2\ndata: {"n":2}\n\n'),
+        ),
+      )
+      .mockResolvedValueOnce(new Response(streamOf('id: 3\ndata: {"n":3}\n\n')));
+
+    const received: unknown[] = [];
+    for await (const event of client().stream<{ n: number }>({ url: '/feed' })) {
+      received.push(event);
+      if (event.data.n === 3) break;
+    }
+
+    expect(received).toEqual([
+      { data: { n: 1 }, event: 'tick', id: '1' },
+      { data: { n: 2 }, id: '2' },
+      { data: { n: 3 }, id: '3' },
+    ]);
+    const secondHeaders = (global.fetch as jest.Mock).mock.calls[1][1].headers as Record<
+      string,
+      string
+    >;
+    expect(secondHeaders['Last-Event-ID']).toBe('2');
+  });
+
+  it('treats a CRLF split across chunks as one line break', async () => {
+    const chunks = ['data: a\r', '\ndata: b\r\n\r\n'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+        controller.close();
+      },
+    });
+
+    const data: string[] = [];
+    for await (const event of parseServerSentEvents(body)) data.push(event.data);
+    expect(data).toEqual(['a\nb']);
+  });
+
+  it('reads NDJSON and validates each line', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response(streamOf('{"n":1}\n\n{"n":"x"}\n')));
+    const schema = {
+      parse: (data: unknown) => {
+        if (typeof (data as { n: unknown }).n !== 'number') throw new Error('bad');
+        return data as { n: number };
+      },
+    };
+
+    const received: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const event of client().stream({ url: '/lines', format: 'ndjson', schema })) {
+          received.push(event.data);
+        }
+      })(),
+    ).rejects.toThrow(ResponseValidationError);
+    expect(received).toEqual([{ n: 1 }]);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up reconnecting once retries are exhausted', async () => {
+    mockFetch(503, {});
+    const iterator = client().stream({ url: '/feed' });
+    await expect(iterator.next()).rejects.toThrow(RetryExhaustedError);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('respects an open circuit', async () => {
+    const c = client();
+    c.forceOpen('api.example.com');
+    (global.fetch as jest.Mock).mockClear();
+    await expect(c.stream({ url: '/feed' }).next()).rejects.toThrow(CircuitOpenError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('ends quietly when the signal aborts', async () => {
+    const abort = new AbortController();
+    (global.fetch as jest.Mock).mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('data: "first"\n\n'));
+          init.signal?.addEventListener('abort', () => controller.error(new TypeError('aborted')));
+        },
+      });
+      return new Response(body);
+    });
+
+    const received: unknown[] = [];
+    for await (const event of client().stream({ url: '/feed', signal: abort.signal })) {
+      received.push(event.data);
+      setTimeout(() => abort.abort(), 5);
+    }
+    expect(received).toEqual(['first']);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('URL building', () => {
+  it('joins baseURL and paths with exactly one slash', () => {
+    expect(joinURL('https://api.example.com/', '/users')).toBe('https://api.example.com/users');
+    expect(joinURL('https://api.example.com/v1', 'users')).toBe('https://api.example.com/v1/users');
+    expect(joinURL('https://api.example.com', '')).toBe('https://api.example.com');
+  });
+
+  it('only treats URLs with a scheme as absolute', () => {
+    expect(joinURL('https://api.example.com', 'httpbin-path')).toBe(
+      'https://api.example.com/httpbin-path',
+    );
+    expect(joinURL('https://api.example.com', 'http://other.test/x')).toBe('http://other.test/x');
+  });
+
+  it('serializes arrays, nested objects and special characters', () => {
+    const params = {
+      q: 'a b&c',
+      tag: ['x', 'y'],
+      filter: { status: 'open', owner: { id: 7 } },
+      skip: undefined,
+      none: null,
+    };
+    expect(serializeParams(params)).toBe(
+      'q=a%20b%26c&tag=x&tag=y&filter%5Bstatus%5D=open&filter%5Bowner%5D%5Bid%5D=7',
+    );
+    expect(serializeParams({ tag: ['x', 'y'] }, 'brackets')).toBe('tag%5B%5D=x&tag%5B%5D=y');
+    expect(serializeParams({ tag: ['x', 'y'] }, 'indices')).toBe('tag%5B0%5D=x&tag%5B1%5D=y');
+    expect(serializeParams({ tag: ['x', 'y'] }, 'comma')).toBe('tag=x,y');
+  });
+
+  it('interpolates path params and merges with an existing query', () => {
+    expect(
+      buildURL('https://api.example.com', '/users/:id/posts?sort=new', {
+        pathParams: { id: 'a/b' },
+        params: { page: 2 },
+      }),
+    ).toBe('https://api.example.com/users/a%2Fb/posts?sort=new&page=2');
+    expect(() => buildURL('https://api.example.com', '/users/:id', { pathParams: {} })).toThrow(
+      InvalidRequestError,
+    );
+  });
+});
+
+describe('Method helpers', () => {
+  it('sends each verb with params and path params', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com/' });
+
+    await client.get('/users/:id', { pathParams: { id: 42 }, params: { expand: ['a', 'b'] } });
+    await client.post('/users', { name: 'Ada' });
+    await client.delete('/users/1');
+
+    const calls = (global.fetch as jest.Mock).mock.calls as [string, RequestInit][];
+    expect(calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'GET https://api.example.com/users/42?expand=a&expand=b',
+      'POST https://api.example.com/users',
+      'DELETE https://api.example.com/users/1',
+    ]);
+    expect(calls[1]?.[1].body).toBe('{"name":"Ada"}');
+  });
+
+  it('uses the path template as the partition route', async () => {
+    mockFetch(200, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      circuitBreaker: { partitionBy: 'route' },
+    });
+    await client.get('/users/:id', { pathParams: { id: 1 } });
+    await client.get('/users/:id', { pathParams: { id: 2 } });
+    expect(Object.keys(client.health().circuits)).toEqual(['GET api.example.com/users/:id']);
+  });
+
+  it('requires path params when the URL declares them', () => {
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+    const typeOnly = (): void => {
+      // @ts-expect-error pathParams.id is required
+      void client.get('/users/:id');
+      // @ts-expect-error unknown path param name
+      void client.get('/users/:id', { pathParams: { userId: 1 } });
+    };
+    expect(typeof typeOnly).toBe('function');
+  });
+});
+
+describe('Schema validation', () => {
+  const userSchema = {
+    parse: (data: unknown): { id: number } => {
+      if (typeof (data as { id?: unknown }).id !== 'number') throw new Error('id must be a number');
+      return { id: (data as { id: number }).id };
+    },
+  };
+
+  it('types data from the schema and picks status-specific validators', async () => {
+    const jobSchema = { parse: (data: unknown) => data as { jobId: string } };
+    (global.fetch as jest.Mock).mockResolvedValue(
+      new Response(JSON.stringify({ jobId: 'j1' }), {
+        status: 202,
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+
+    const res = await client.request<{ id: number } | { jobId: string }>({
+      method: 'POST',
+      url: '/jobs',
+      schema: userSchema,
+      statusSchemas: { 202: jobSchema },
+    });
+    expect(res.data).toEqual({ jobId: 'j1' });
+  });
+
+  it('validates and sends the parsed body', async () => {
+    mockFetch(200, { id: 1 });
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+    const bodySchema = {
+      parse: (data: unknown) => {
+        const { name } = data as { name?: unknown };
+        if (typeof name !== 'string') throw new Error('name required');
+        return { name: name.trim() };
+      },
+    };
+
+    const res = await client.post('/users', { name: ' Ada ' }, { bodySchema, schema: userSchema });
+    const id: number = res.data.id;
+    expect(id).toBe(1);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].body).toBe('{"name":"Ada"}');
+
+    (global.fetch as jest.Mock).mockClear();
+    await expect(client.post('/users', { name: 1 }, { bodySchema })).rejects.toThrow(
+      RequestValidationError,
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('skips validation in performance mode unless asked', async () => {
+    mockFetch(200, { id: 'not-a-number' });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      mode: 'performance',
+    });
+    await expect(client.get('/users/1', { schema: userSchema })).resolves.toBeDefined();
+    await expect(client.get('/users/2', { schema: userSchema, validate: true })).rejects.toThrow(
+      ResponseValidationError,
+    );
+
+    const validating = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      mode: 'performance',
+      validate: true,
+    });
+    await expect(validating.get('/users/3', { schema: userSchema })).rejects.toThrow(
+      ResponseValidationError,
+    );
+  });
+});
+
+describe('OpenAPI client generation', () => {
+  const doc: OpenAPIDocument = {
+    openapi: '3.1.0',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+      '/pets/{petId}': {
+        parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+        get: {
+          operationId: 'get-pet',
+          parameters: [{ name: 'fields', in: 'query', schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+            },
+          },
+        },
+      },
+      '/pets': {
+        post: {
+          operationId: 'createPet',
+          'x-idempotent': true,
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+          },
+          responses: { '201': {} },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'integer' },
+            kind: { type: ['string', 'null'], enum: ['cat', 'dog'] },
+          },
+        },
+      },
+    },
+  };
+
+  it('emits component types and one method per operation', () => {
+    const source = generateClient(doc, { className: 'pet store' });
+    expect(source).toContain('export type Pet = {\n  id: number;\n  kind?: "cat" | "dog" | null;\n};');
+    expect(source).toContain('export class PetStore {');
+    expect(source).toContain(
+      'getPet(input: {\n    pathParams: { petId: number };\n    params?: {\n      fields?: string;\n    };\n  }, options?: OperationOptions<Pet>): Promise<StrontiumResponse<Pet>>',
+    );
+    expect(source).toContain("method: 'GET',\n      url: '/pets/:petId',");
+  });
+
+  it('gives idempotent operations an Idempotency-Key by default', () => {
+    const source = generateClient(doc);
+    expect(source).toContain(
+      "createPet(input: {\n    body: Pet;\n  }, options?: OperationOptions<void>): Promise<StrontiumResponse<void>> {\n    return this.client.request<void>({\n      protocolMode: 'idempotent',\n      ...options,",
+    );
+  });
+
+  it('emits code that type-checks against the client', async () => {
+    const ts = await import('typescript');
+    const path = await import('path');
+    const file = path.join(__dirname, '__generated_client__.ts');
+    const source = generateClient(doc, { importPath: '../src/index' });
+    const { config } = ts.readConfigFile(path.join(__dirname, '../tsconfig.json'), ts.sys.readFile);
+    const { options } = ts.parseJsonConfigFileContent(config, ts.sys, path.join(__dirname, '..'));
+    const host = ts.createCompilerHost({ ...options, noEmit: true });
+    const { getSourceFile, fileExists } = host;
+    host.fileExists = (name) => name === file || fileExists(name);
+    host.getSourceFile = (name, version, ...rest) =>
+      name === file
+        ? ts.createSourceFile(name, source, version)
+        : getSourceFile(name, version, ...rest);
+
+    const program = ts.createProgram([file], { ...options, noEmit: true }, host);
+    const errors = ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+    expect(errors).toEqual([]);
+  }, 60_000);
+
+  it('rejects documents that are not OpenAPI 3.x', () => {
+    expect(() => generateClient({ ...doc, openapi: '2.0' })).toThrow('Unsupported OpenAPI version');
+  });
+});
+
+describe('Middleware', () => {
+  const client = () => createStrontiumClient({ baseURL: 'https://api.example.com' });
+
+  it('runs in order and can rewrite the request', async () => {
+    mockFetch(200, {});
+    const c = client();
+    const seen: string[] = [];
+    c.useMiddleware(async (ctx, next) => {
+      seen.push('inner');
+      ctx.headers['X-Trace'] = 'abc';
+      return next();
+    });
+    c.useMiddleware(
+      async (ctx, next) => {
+        seen.push('outer');
+        return next({ ...ctx, url: ctx.url.replace('/v1/', '/v2/') });
+      },
+      { order: -1 },
+    );
+
+    await c.get('/v1/users');
+    expect(seen).toEqual(['outer', 'inner']);
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://api.example.com/v2/users');
+    expect((init.headers as Record<string, string>)['X-Trace']).toBe('abc');
+  });
+
+  it('short-circuits with a synthetic response and can be removed', async () => {
+    mockFetch(200, { source: 'network' });
+    const c = client();
+    const remove = c.useMiddleware(async () =>
+      Response.json({ source: 'mock' }, { headers: { 'content-type': 'application/json' } }),
+    );
+
+    expect((await c.get('/x')).data).toEqual({ source: 'mock' });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    remove();
+    expect((await c.get('/x', { dedupe: false })).data).toEqual({ source: 'network' });
+  });
+
+  it('can transform errors', async () => {
+    (global.fetch as jest.Mock).mockRejectedValue(new Error('socket hang up'));
+    const c = client();
+    class UpstreamError extends Error {}
+    c.useMiddleware(async (_ctx, next) => {
+      try {
+        return await next();
+      } catch (err) {
+        throw new UpstreamError(`upstream: ${(err as Error).message}`);
+      }
+    });
+    await expect(c.get('/x')).rejects.toThrow(UpstreamError);
+  });
+
+  it('composes hooks registered through use()', async () => {
+    mockFetch(200, {});
+    const first = jest.fn();
+    const second = jest.fn();
+    const c = client().use({ onAfterResponse: first }).use({ onAfterResponse: second });
+    await c.get('/x');
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Authentication', () => {
+  const authHeader = (call: number): string | undefined => {
+    const [, init] = (global.fetch as jest.Mock).mock.calls[call] as [string, RequestInit];
+    return (init.headers as Record<string, string>)['Authorization'];
+  };
+
+  it('adds static bearer and basic credentials unless the request sets its own', async () => {
+    mockFetch(200, {});
+    const bearer = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      auth: new StaticBearerAuth(() => 'tok'),
+    });
+    await bearer.get('/a');
+    await bearer.get('/b', { headers: { authorization: 'Bearer override' } });
+    expect(authHeader(0)).toBe('Bearer tok');
+    expect(authHeader(1)).toBeUndefined();
+
+    const basic = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      auth: new BasicAuth('ada', 'päss'),
+    });
+    await basic.get('/c');
+    expect(authHeader(2)).toBe(`Basic ${Buffer.from('ada:päss').toString('base64')}`);
+  });
+
+  it('fetches client-credentials tokens once and refreshes once for concurrent 401s', async () => {
+    let issued = 0;
+    (global.fetch as jest.Mock).mockImplementation(async (url: string, init: RequestInit) => {
+      if (url === 'https://auth.example.com/token') {
+        issued++;
+        await new Promise((r) => setTimeout(r, 5));
+        return Response.json({ access_token: `t${issued}`, expires_in: 3600 });
+      }
+      const auth = (init.headers as Record<string, string>)['Authorization'];
+      return auth === 'Bearer t1'
+        ? new Response('expired', { status: 401 })
+        : Response.json({ ok: true });
+    });
+
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+      auth: new OAuth2ClientCredentials({
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'id',
+        clientSecret: 'secret',
+      }),
+    });
+    const onRetry = jest.fn();
+    client.use({ onRetry });
+
+    const results = await Promise.all(
+      ['/a', '/b', '/c'].map((url) => client.get(url, { dedupe: false })),
+    );
+    expect(issued).toBe(2);
+    expect(results.map((res) => res.attempt)).toEqual([1, 1, 1]);
+    expect(onRetry).not.toHaveBeenCalled();
+
+    const tokenCall = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect(String(tokenCall[1].body)).toBe('grant_type=client_credentials');
+    expect((tokenCall[1].headers as Record<string, string>)['Authorization']).toBe(
+      `Basic ${Buffer.from('id:secret').toString('base64')}`,
+    );
+  });
+
+  it('refreshes proactively before expiry while serving the current token', async () => {
+    let issued = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      Response.json({ access_token: `t${++issued}`, expires_in: 60 }),
+    );
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'id',
+      clientSecret: 'secret',
+      refreshBeforeExpiryMs: 10_000,
+    });
+
+    expect(await provider.getToken()).toBe('t1');
+    expect(await provider.getToken(Date.now() + 55_000)).toBe('t1');
+    await new Promise((r) => setTimeout(r, 0));
+    expect(await provider.getToken()).toBe('t2');
+  });
+
+  it('fails with AuthenticationError when the token endpoint rejects', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(new Response('nope', { status: 400 }));
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      auth: new OAuth2ClientCredentials({
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'id',
+        clientSecret: 'secret',
+      }),
+    });
+    await expect(client.get('/a')).rejects.toThrow(AuthenticationError);
+  });
+});
+
+// ─── HTTP Cache ───────────────────────────────────────────────────────────────
+
+describe('HTTP cache', () => {
+  const cachedClient = () =>
+    createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      cache: { enabled: true },
+      retry: { maxAttempts: 1 },
+    });
+
+  it('serves fresh responses from cache within max-age', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      Response.json({ n: 1 }, { headers: { 'cache-control': 'max-age=60' } }),
+    );
+    const client = cachedClient();
+
+    const first = await client.get('/items');
+    const second = await client.get('/items');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(first.cache).toBeUndefined();
+    expect(second).toMatchObject({ data: { n: 1 }, cache: 'hit', attempt: 0 });
+  });
+
+  it('revalidates with If-None-Match and reuses the body on 304', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        Response.json({ n: 1 }, { headers: { 'cache-control': 'no-cache', etag: '"v1"' } }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { etag: '"v1"' } }));
+    const client = cachedClient();
+
+    await client.get('/items');
+    const second = await client.get('/items');
+    const [, init] = (global.fetch as jest.Mock).mock.calls[1] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['If-None-Match']).toBe('"v1"');
+    expect(second).toMatchObject({ status: 200, data: { n: 1 }, cache: 'revalidated' });
+  });
+
+  it('never stores no-store responses', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      Response.json({ n: 1 }, { headers: { 'cache-control': 'no-store, max-age=60' } }),
+    );
+    const client = cachedClient();
+
+    await client.get('/items');
+    await client.get('/items');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves stale while revalidating in the background', async () => {
+    let version = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      Response.json(
+        { v: ++version },
+        { headers: { 'cache-control': 'max-age=0, stale-while-revalidate=60' } },
+      ),
+    );
+    const client = cachedClient();
+
+    await client.get('/items');
+    const stale = await client.get('/items');
+    expect(stale).toMatchObject({ data: { v: 1 }, cache: 'stale' });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect((await client.get('/items')).data).toEqual({ v: 2 });
+    // that read was stale again; let its refresh settle before the next test
+    await new Promise((r) => setTimeout(r, 0));
+  });
+
+  it('falls back to a stale entry while the circuit is open', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      Response.json({ n: 1 }, { headers: { 'cache-control': 'max-age=0, stale-if-error=300' } }),
+    );
+    const client = cachedClient();
+
+    await client.get('/items');
+    client.forceOpen('api.example.com');
+    const res = await client.get('/items');
+    expect(res).toMatchObject({ data: { n: 1 }, cache: 'stale' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    await expect(client.get('/other')).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('serves stale on a 5xx but not on a 4xx', async () => {
+    const cached = () =>
+      Response.json({ n: 1 }, { headers: { 'cache-control': 'max-age=0, stale-if-error=300' } });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(cached())
+      .mockResolvedValueOnce(new Response('down', { status: 503 }))
+      .mockResolvedValueOnce(cached())
+      .mockResolvedValueOnce(new Response('gone', { status: 404 }));
+    const client = cachedClient();
+
+    await client.get('/items');
+    expect(await client.get('/items')).toMatchObject({ data: { n: 1 }, cache: 'stale' });
+    await client.get('/private');
+    await expect(client.get('/private')).rejects.toThrow('HTTP 404');
+  });
+
+  it('ignores the cache unless enabled for the client or request', async () => {
+    (global.fetch as jest.Mock).mockImplementation(async () =>
+      Response.json({ n: 1 }, { headers: { 'cache-control': 'max-age=60' } }),
+    );
+    const client = createStrontiumClient({ baseURL: 'https://api.example.com' });
+
+    await client.get('/items', { dedupe: false });
+    await client.get('/items', { dedupe: false });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    await client.get('/items', { cache: true });
+    expect((await client.get('/items', { cache: true })).cache).toBe('hit');
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const store = new InMemoryCacheStore(2);
+    const entry = { status: 200 } as CacheEntry;
+    await store.set('a', entry);
+    await store.set('b', entry);
+    await store.get('a');
+    await store.set('c', entry);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toBe(entry);
+    expect(store.size()).toBe(2);
+  });
+});
+
+// ─── Fallbacks ────────────────────────────────────────────────────────────────
+
+describe('Fallback responses', () => {
+  it('serves a static value while the circuit is open', async () => {
+    const onFallback = jest.fn();
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      fallback: { value: { items: [] } },
+    });
+    client.use({ onFallback });
+    client.forceOpen('api.example.com');
+
+    const res = await client.get('/items');
+    expect(res).toMatchObject({ data: { items: [] }, fromFallback: true });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(onFallback).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://api.example.com/items' }),
+      expect.objectContaining({ source: 'value', error: expect.any(CircuitOpenError) }),
+    );
+    expect(client.health().fallbacks).toEqual({ value: 1, lastKnownGood: 0 });
+  });
+
+  it('passes the error and context to a fallback function after retries are exhausted', async () => {
+    mockFetch(503, {});
+    const value = jest.fn((err: unknown, ctx: { attempt: number }) => ({
+      reason: (err as Error).name,
+      attempt: ctx.attempt,
+    }));
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false },
+    });
+
+    const res = await client.get('/items', { fallback: { value } });
+    expect(res.data).toEqual({ reason: 'RetryExhaustedError', attempt: 2 });
+    expect(res.fromFallback).toBe(true);
+  });
+
+  it('prefers the last known good response for the same URL', async () => {
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      fallback: { lastKnownGood: true, value: 'default' },
+    });
+    mockFetch(200, { n: 1 });
+    await client.get('/items');
+
+    client.forceOpen('api.example.com');
+    expect(await client.get('/items')).toMatchObject({ data: { n: 1 }, fromFallback: true });
+    expect((await client.get('/other')).data).toBe('default');
+    expect(client.health().fallbacks).toEqual({ value: 1, lastKnownGood: 1 });
+  });
+
+  it('leaves other errors and disabled requests alone', async () => {
+    mockFetch(404, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      fallback: { value: null },
+    });
+
+    await expect(client.get('/missing')).rejects.toThrow(NetworkError);
+    client.forceOpen('api.example.com');
+    await expect(client.get('/items', { fallback: false })).rejects.toThrow(CircuitOpenError);
+  });
+});
+
+// ─── Idempotency Store ────────────────────────────────────────────────────────
+
+describe('Idempotency store', () => {
+  const payment = (body: unknown) => ({
+    method: 'POST' as const,
+    url: '/payments',
+    body,
+    idempotencyKey: 'pay-1',
+  });
+
+  it('rejects a reused key with a different payload, scoped per client', async () => {
+    mockFetch(200, { ok: true });
+    const config = { baseURL: 'https://api.example.com', protocolMode: 'idempotent' as const };
+    const client = createStrontiumClient(config);
+
+    await client.request(payment({ amount: 1 }));
+    await client.request(payment({ amount: 1 }));
+    await expect(client.request(payment({ amount: 2 }))).rejects.toThrow(IntegrityViolationError);
+    // A separate client has its own default store
+    await createStrontiumClient(config).request(payment({ amount: 2 }));
+  });
+
+  it('releases a key once its TTL has passed', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent',
+      idempotency: { ttlMs: 5 },
+    });
+
+    await client.request(payment({ amount: 1 }));
+    await new Promise((r) => setTimeout(r, 10));
+    await expect(client.request(payment({ amount: 2 }))).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('replays the first response for the same key and payload', async () => {
+    mockFetch(201, { id: 'ch_1' });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent',
+      idempotency: { storeResponses: true },
+    });
+
+    const first = await client.request(payment({ amount: 1 }));
+    const second = await client.request(payment({ amount: 1 }));
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(first.idempotentReplay).toBeUndefined();
+    expect(second).toMatchObject({ status: 201, data: { id: 'ch_1' }, idempotentReplay: true });
+  });
+
+  it('shares keys through a file across clients with the same scope', async () => {
+    const os = await import('os');
+    const path = await import('path');
+    const fs = await import('fs/promises');
+    const file = path.join(os.tmpdir(), `strontium-idem-${process.pid}-${Date.now()}.json`);
+    mockFetch(200, { ok: true });
+    const config = {
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent' as const,
+      idempotency: { store: new FileIdempotencyStore(file), scope: 'payments' },
+    };
+    try {
+      await createStrontiumClient(config).request(payment({ amount: 1 }));
+      await expect(createStrontiumClient(config).request(payment({ amount: 2 }))).rejects.toThrow(
+        IntegrityViolationError,
+      );
+      const stored = JSON.parse(await fs.readFile(file, 'utf8')) as Record<string, unknown>;
+      expect(Object.keys(stored)).toEqual(['payments:pay-1']);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  });
+
+  it('lets only one of two concurrent file-store claims bind a key', async () => {
+    const os = await import('os');
+    const path = await import('path');
+    const fs = await import('fs/promises');
+    const file = path.join(os.tmpdir(), `strontium-claim-${process.pid}-${Date.now()}.json`);
+    const record = (payloadHash: string) => ({
+      payloadHash,
+      createdAt: 0,
+      expiresAt: Date.now() + 60_000,
+    });
+    try {
+      const [a, b] = await Promise.all([
+        new FileIdempotencyStore(file).claim('k', record('a')),
+        new FileIdempotencyStore(file).claim('k', record('b')),
+      ]);
+      expect(a).toEqual(b);
+      expect(await new FileIdempotencyStore(file).get('k')).toEqual(a);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  });
+
+  it('bounds the in-memory store and drops expired records', async () => {
+    const store = new InMemoryIdempotencyStore(2);
+    const record = { payloadHash: 'h', createdAt: 0, expiresAt: Date.now() + 60_000 };
+    await store.set('a', record);
+    await store.set('b', record);
+    await store.set('c', record);
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.size()).toBe(2);
+
+    await store.set('d', { ...record, expiresAt: Date.now() - 1 });
+    expect(await store.get('d')).toBeUndefined();
+  });
+});
+
+// ─── Idempotency Keys & Payload Hashing ───────────────────────────────────────
+
+describe('Idempotency keys and payload hashing', () => {
+  it('keeps one key across every retry of a request', async () => {
+    mockFetch(503, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+
+    await expect(
+      client.request({ method: 'POST', url: '/payments', body: { amount: 1 } }),
+    ).rejects.toThrow(RetryExhaustedError);
+    const keys = (global.fetch as jest.Mock).mock.calls.map(
+      ([, init]) =>
+        (init as RequestInit & { headers: Record<string, string> }).headers['Idempotency-Key'],
+    );
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('generates random hex keys', () => {
+    const key = generateIdempotencyKey();
+    expect(key).toMatch(/^idem_[0-9a-f]{32}$/);
+    expect(generateIdempotencyKey()).not.toBe(key);
+  });
+
+  it('keeps Node builtins out of the static imports of the entry', async () => {
+    const fs = await import('fs/promises');
+    const path = await import('path');
+    const { builtinModules } = await import('module');
+    const visited = new Set<string>();
+    const builtins: string[] = [];
+    const visit = async (file: string): Promise<void> => {
+      if (visited.has(file)) return;
+      visited.add(file);
+      const source = await fs.readFile(file, 'utf8');
+      for (const [, specifier] of source.matchAll(
+        /^(?:import|export)\s+(?!type\b)[^;]*?from\s+'([^']+)'/gm,
+      )) {
+        if (specifier.startsWith('.')) {
+          await visit(path.resolve(path.dirname(file), specifier.replace(/\.js$/, '.ts')));
+        } else if (specifier.startsWith('node:') || builtinModules.includes(specifier)) {
+          builtins.push(`${path.basename(file)}: ${specifier}`);
+        }
+      }
+    };
+
+    await visit(path.join(__dirname, '../src/index.ts'));
+    expect(visited.size).toBeGreaterThan(20);
+    expect(builtins).toEqual([]);
+  });
+
+  it('falls back to node:crypto when there is no global crypto', async () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    const expected = await computePayloadHash({ a: 1 });
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(globalThis.crypto).toBeUndefined();
+      expect(generateIdempotencyKey()).toMatch(/^idem_[0-9a-f]{32}$/);
+      expect(await computePayloadHash({ a: 1 })).toBe(expected);
+    } finally {
+      if (descriptor) Object.defineProperty(globalThis, 'crypto', descriptor);
+    }
+  });
+
+  it('serializes payloads canonically', async () => {
+    expect(canonicalJSON({ b: 1, a: { d: [1, undefined], c: undefined } })).toBe(
+      '{"a":{"d":[1,null]},"b":1}',
+    );
+    expect(canonicalJSON({ at: new Date(0), big: 10n, n: NaN })).toBe(
+      '{"at":"1970-01-01T00:00:00.000Z","big":10,"n":null}',
+    );
+    expect(await computePayloadHash({ a: 1, b: 2 })).toBe(await computePayloadHash({ b: 2, a: 1 }));
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    expect(() => canonicalJSON(cyclic)).toThrow(TypeError);
+  });
+
+  it('hashes binary bodies by their bytes', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent',
+    });
+    const upload = (bytes: number[]) =>
+      client.request({
+        method: 'PUT',
+        url: '/blobs/1',
+        body: new Uint8Array(bytes),
+        idempotencyKey: 'blob-1',
+      });
+
+    await upload([1, 2, 3]);
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect((init.headers as Record<string, string>)['X-Payload-Hash']).toBe(
+      await computePayloadHash(new Uint8Array([1, 2, 3]).buffer),
+    );
+    await expect(upload([1, 2, 4])).rejects.toThrow(IntegrityViolationError);
+  });
+
+  it('sends the canonical JSON that X-Payload-Hash covers', async () => {
+    const { createHash } = await import('crypto');
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      protocolMode: 'idempotent',
+    });
+    await client.post('/orders', { b: 1, a: 2, big: 10n });
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0] as [string, RequestInit];
+    expect(init.body).toBe('{"a":2,"b":1,"big":10}');
+    expect((init.headers as Record<string, string>)['X-Payload-Hash']).toBe(
+      createHash('sha256').update(init.body as string).digest('hex'),
+    );
+  });
+});
+
+// ─── Metrics Export ───────────────────────────────────────────────────────────
+
+describe('Metrics export', () => {
+  it('exports request counters and latency histograms per host', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      metrics: { buckets: [0.1, 1] },
+    });
+    await client.get('/a', { dedupe: false });
+    mockFetch(404, {});
+    await expect(client.get('/b')).rejects.toThrow(NetworkError);
+
+    const text = client.metricsText();
+    expect(text).toContain('# TYPE strontium_requests counter');
+    expect(text).toContain(
+      'strontium_requests_total{method="GET",host="api.example.com",status="200",outcome="success"} 1',
+    );
+    expect(text).toContain(
+      'strontium_requests_total{method="GET",host="api.example.com",status="404",outcome="http_error"} 1',
+    );
+    expect(text).toContain(
+      'strontium_request_duration_seconds_bucket{method="GET",host="api.example.com",le="+Inf"} 2',
+    );
+    expect(text).toContain(
+      'strontium_request_duration_seconds_count{method="GET",host="api.example.com"} 2',
+    );
+    expect(text).toContain('strontium_in_flight_requests{host="api.example.com"} 0');
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('counts retries and circuit transitions', async () => {
+    mockFetch(503, {});
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false },
+    });
+    await expect(client.get('/a')).rejects.toThrow(RetryExhaustedError);
+    client.forceOpen('api.example.com');
+
+    const text = client.metricsText();
+    expect(text).toContain('strontium_retries_total{method="GET",host="api.example.com"} 2');
+    expect(text).toContain(
+      'strontium_circuit_transitions_total{partition="api.example.com",from="CLOSED",to="OPEN"} 1',
+    );
+  });
+
+  it('reports bulkhead queue depth, waits and rejections', async () => {
+    mockFetch(200, { ok: true }, 20);
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      bulkhead: { maxConcurrent: 1, maxQueue: 1 },
+    });
+    const first = client.get('/a');
+    const second = client.get('/b');
+    await expect(client.get('/c')).rejects.toThrow(BulkheadRejectedError);
+    expect(client.metricsText()).toContain(
+      'strontium_bulkhead_queue_depth{partition="api.example.com"} 1',
+    );
+    await Promise.all([first, second]);
+
+    const text = client.metricsText();
+    expect(text).toContain('strontium_bulkhead_queue_depth{partition="api.example.com"} 0');
+    expect(text).toContain(
+      'strontium_bulkhead_queue_wait_seconds_count{partition="api.example.com"} 2',
+    );
+    expect(text).toContain(
+      'strontium_bulkhead_rejections_total{partition="api.example.com",reason="queue_full"} 1',
+    );
+  });
+
+  it('reports rate limit waits and rejections', async () => {
+    mockFetch(200, { ok: true });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      rateLimit: { enabled: true, ratePerSecond: 1, burst: 1, mode: 'fail' },
+    });
+    await client.get('/a');
+    await expect(client.get('/b')).rejects.toThrow(RateLimitedError);
+
+    const text = client.metricsText();
+    expect(text).toContain(
+      'strontium_rate_limit_wait_seconds_count{partition="api.example.com"} 1',
+    );
+    expect(text).toContain('strontium_rate_limit_rejections_total{partition="api.example.com"} 1');
+  });
+
+  it('writes to a custom registry and survives one that throws', async () => {
+    mockFetch(200, { ok: true });
+    const incrementCounter = jest.fn(() => {
+      throw new Error('registry down');
+    });
+    const client = createStrontiumClient({
+      baseURL: 'https://api.example.com',
+      metrics: {
+        registry: {
+          describe: jest.fn(),
+          incrementCounter,
+          setGauge: jest.fn(),
+          observeHistogram: jest.fn(),
+        },
+      },
+    });
+
+    await expect(client.get('/a')).resolves.toMatchObject({ status: 200 });
+    expect(incrementCounter).toHaveBeenCalledWith('strontium_requests', {
+      method: 'GET',
+      host: 'api.example.com',
+      status: '200',
+      outcome: 'success',
+    });
+    expect(client.metricsText()).toBe('');
+  });
+
+  it('renders cumulative buckets and escapes label values', () => {
+    const registry = new OpenMetricsRegistry();
+    registry.describe({
+      name: 'latency',
+      type: 'histogram',
+      help: 'Latency.',
+      labelNames: ['path'],
+      buckets: [1, 0.5],
+    });
+    registry.observeHistogram('latency', { path: 'a"b' }, 0.2);
+    registry.observeHistogram('latency', { path: 'a"b' }, 0.7);
+    expect(registry.toOpenMetrics().split('\n')).toEqual([
+      '# TYPE latency histogram',
+      '# HELP latency Latency.',
+      'latency_bucket{path="a\\"b",le="0.5"} 1',
+      'latency_bucket{path="a\\"b",le="1"} 2',
+      'latency_bucket{path="a\\"b",le="+Inf"} 2',
+      'latency_sum{path="a\\"b"} 0.8999999999999999',
+      'latency_count{path="a\\"b"} 2',
+      '# EOF',
+      '',
+    ]);
+  });
+
+  it('counts only failures inside the recent window', () => {
+    const metrics = new Metrics();
+    const sample = {
+      requestId: 'r',
+      url: 'https://api.example.com/a',
+      method: 'GET',
+      latencyMs: 5_000_000,
+      attempt: 1,
+      status: 500,
+      success: false,
+      outcome: 'http_error' as const,
+    };
+    metrics.record(sample);
+    expect(metrics.recentFailures(60_000)).toBe(1);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 120_000);
+    expect(metrics.recentFailures(60_000)).toBe(0);
+    jest.restoreAllMocks();
+  });
+});